@@ -0,0 +1,103 @@
+// Not At Home service worker — keeps the session page usable without signal.
+//   • Next.js build assets: cache-first (file names are content-hashed)
+//   • Pages and the map JSON (image URL + DNC list): network-first, cached fallback
+//   • Map images: cache-first, refreshed in the background, capped in number
+// Nothing else from the API is cached: exports, cards and the session
+// response (which carries a participant token) must not outlive a logout.
+// Writes are never handled here; the page queues them in its IndexedDB outbox.
+
+const VERSION = 'nah-v2';
+const SHELL = `${VERSION}-shell`;
+const DATA = `${VERSION}-data`;
+const IMAGES = `${VERSION}-images`;
+
+// Every /session/<code> URL serves the same client-rendered page, so one
+// cached copy can open any session offline.
+const SESSION_SHELL_KEY = '/session/__shell';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL).then((cache) => cache.addAll(['/', '/role-selection', '/publisher', '/overseer', '/manifest.json']).catch(() => {}))
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => !k.startsWith(VERSION)).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const IMAGE_LIMIT = 30;
+
+// GET /api/maps/<uuid> only — not its sub-routes or the admin exports
+const MAP_JSON = /^\/api\/maps\/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Street map tiles are fetched by the hundred as the map pans; they are left
+// to the browser's HTTP cache rather than kept here
+const isTile = (url) => url.hostname.endsWith('tile.openstreetmap.org');
+
+async function networkFirst(request, cacheName, fallbackKey) {
+  const cache = await caches.open(cacheName);
+  try {
+    const res = await fetch(request);
+    if (res.ok) {
+      cache.put(request, res.clone());
+      if (fallbackKey) cache.put(fallbackKey, res.clone());
+    }
+    return res;
+  } catch (e) {
+    const hit = (await cache.match(request)) || (fallbackKey && (await cache.match(fallbackKey)));
+    if (hit) return hit;
+    throw e;
+  }
+}
+
+// Drops the oldest entries (keys() is in insertion order) beyond `limit`
+async function trim(cache, limit) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - limit)).map((k) => cache.delete(k)));
+}
+
+async function cacheFirst(request, cacheName, limit) {
+  const cache = await caches.open(cacheName);
+  const hit = await cache.match(request);
+  const refresh = fetch(request).then(async (res) => {
+    if (res.ok || res.type === 'opaque') {
+      await cache.put(request, res.clone());
+      if (limit && !hit) await trim(cache, limit);
+    }
+    return res;
+  });
+  if (hit) {
+    refresh.catch(() => {});
+    return hit;
+  }
+  return refresh;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.destination === 'image') {
+    if (!isTile(url)) event.respondWith(cacheFirst(request, IMAGES, IMAGE_LIMIT));
+    return;
+  }
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, SHELL));
+    return;
+  }
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL, url.pathname.startsWith('/session/') ? SESSION_SHELL_KEY : undefined));
+    return;
+  }
+  if (MAP_JSON.test(url.pathname)) {
+    event.respondWith(networkFirst(request, DATA));
+  }
+});
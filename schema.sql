@@ -7,13 +7,29 @@ CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 CREATE TABLE IF NOT EXISTS congregations (
   id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   name        TEXT NOT NULL UNIQUE,
-  pin_code    VARCHAR(10) NOT NULL,
+  pin_code    VARCHAR(10),                     -- legacy plain-text PIN (NULL once hashed)
+  pin_hash    TEXT,                            -- bcrypt hash of the congregation PIN
+  pin_version INTEGER NOT NULL DEFAULT 0,      -- bumped on PIN change; older congregation logins are refused
   status      TEXT NOT NULL DEFAULT 'pending', -- pending | active | suspended
   contact_email TEXT,
   notification_email TEXT,                     -- receives auto-expiry emails
+  session_retention_days INTEGER NOT NULL DEFAULT 30, -- days ended sessions keep their addresses
+  return_visit_retention_days INTEGER NOT NULL DEFAULT 365, -- days an open return visit is kept after it was last seen
+  geofence_tolerance_m INTEGER NOT NULL DEFAULT 100, -- metres outside a map boundary still accepted
   created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Existing databases: hash plain-text PINs (pgcrypto's bf salt is bcrypt)
+ALTER TABLE congregations ADD COLUMN IF NOT EXISTS pin_hash TEXT;
+ALTER TABLE congregations ALTER COLUMN pin_code DROP NOT NULL;
+UPDATE congregations SET pin_hash = crypt(pin_code, gen_salt('bf', 10)), pin_code = NULL
+WHERE pin_hash IS NULL AND pin_code IS NOT NULL;
+ALTER TABLE congregations ADD COLUMN IF NOT EXISTS pin_version INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE congregations ADD COLUMN IF NOT EXISTS session_retention_days INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE congregations ADD COLUMN IF NOT EXISTS return_visit_retention_days INTEGER NOT NULL DEFAULT 365;
+ALTER TABLE congregations ADD COLUMN IF NOT EXISTS geofence_tolerance_m INTEGER NOT NULL DEFAULT 100;
+
 -- Congregation admins (up to 3 per congregation)
 CREATE TABLE IF NOT EXISTS congregation_admins (
   id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -31,9 +47,28 @@ CREATE TABLE IF NOT EXISTS territory_maps (
   name            TEXT,
   block_count     INTEGER NOT NULL DEFAULT 1,
   image_url       TEXT,
+  boundary        JSONB,                    -- GeoJSON Polygon/MultiPolygon
+  block_shapes    JSONB,                    -- GeoJSON FeatureCollection, properties.block_number
+  image_hotspots  JSONB,                    -- [{ block_number, points: [[x, y] …] }], fractions of the image
   created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   UNIQUE(congregation_id, map_number)
 );
+ALTER TABLE territory_maps ADD COLUMN IF NOT EXISTS boundary JSONB;
+ALTER TABLE territory_maps ADD COLUMN IF NOT EXISTS block_shapes JSONB;
+ALTER TABLE territory_maps ADD COLUMN IF NOT EXISTS image_hotspots JSONB;
+
+-- Territory assignment register (S-13): map checked out to a publisher/group
+CREATE TABLE IF NOT EXISTS territory_assignments (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  map_id         UUID NOT NULL REFERENCES territory_maps(id) ON DELETE CASCADE,
+  assignee       TEXT NOT NULL,
+  checked_out_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  checked_in_on  DATE,                      -- NULL while checked out
+  notes          TEXT,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_territory_assignments_open
+  ON territory_assignments(map_id) WHERE checked_in_on IS NULL;
 
 -- Do Not Call entries per map
 CREATE TABLE IF NOT EXISTS do_not_call (
@@ -46,6 +81,13 @@ CREATE TABLE IF NOT EXISTS do_not_call (
   status       TEXT NOT NULL DEFAULT 'approved',
   reason       TEXT,
   submitted_by TEXT,
+  latitude     DOUBLE PRECISION,
+  longitude    DOUBLE PRECISION,
+  unit_number  TEXT,                         -- structured fields parsed from address
+  house_number TEXT,
+  street_name  TEXT,
+  suburb       TEXT,
+  address_key  TEXT,                         -- normalised address for matching (src/lib/address.ts)
   created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
@@ -55,19 +97,34 @@ ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS last_visit TEXT;
 ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved';
 ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS reason TEXT;
 ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS submitted_by TEXT;
+-- Where the DNC request was recorded (GPS fix), for the interactive map
+ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS address_key TEXT;
+-- Filled in from address by the app on first use (src/lib/address-keys.ts)
+ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS unit_number TEXT;
+ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS house_number TEXT;
+ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS street_name TEXT;
+ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS suburb TEXT;
 
--- Active sessions (ephemeral — deleted when session ends or after 24h)
+-- Sessions (open for 24h; ended sessions stay as the congregation's archive)
 CREATE TABLE IF NOT EXISTS sessions (
   id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-  code            VARCHAR(6) NOT NULL UNIQUE,
+  code            VARCHAR(16) NOT NULL UNIQUE,
   congregation_id UUID NOT NULL REFERENCES congregations(id) ON DELETE CASCADE,
   map_number      INTEGER NOT NULL,
   is_active       BOOLEAN NOT NULL DEFAULT TRUE,
   created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-  expires_at      TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours'
+  expires_at      TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+  ended_at        TIMESTAMPTZ,
+  purged_at       TIMESTAMPTZ              -- addresses deleted after the retention period
 );
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS purged_at TIMESTAMPTZ;
+-- Older databases have shorter session codes
+ALTER TABLE sessions ALTER COLUMN code TYPE VARCHAR(16);
 
--- Not-at-home addresses (ephemeral — deleted with session)
+-- Not-at-home addresses (purged once the session's retention period passes)
 CREATE TABLE IF NOT EXISTS not_at_home_addresses (
   id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   session_id  UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
@@ -76,8 +133,81 @@ CREATE TABLE IF NOT EXISTS not_at_home_addresses (
   house_number TEXT NOT NULL,
   street_name  TEXT NOT NULL,
   suburb       TEXT,
+  client_key   TEXT,                         -- Idempotency-Key sent by the client
+  latitude     DOUBLE PRECISION,             -- device GPS fix (NULL for manual entries)
+  longitude    DOUBLE PRECISION,
+  accuracy_m   REAL,                         -- GPS accuracy radius in metres
+  location_source TEXT NOT NULL DEFAULT 'manual', -- gps | manual
+  outside_boundary BOOLEAN NOT NULL DEFAULT false, -- saved despite a fix outside the map boundary
+  address_key  TEXT,                         -- normalised unit/house/street for matching
   recorded_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
+ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS client_key TEXT;
+ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION;
+ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION;
+ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS accuracy_m REAL;
+ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS location_source TEXT NOT NULL DEFAULT 'manual';
+ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS outside_boundary BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS address_key TEXT;
+
+-- Block progress within a session (no row = untouched)
+CREATE TABLE IF NOT EXISTS session_blocks (
+  session_id   UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  block_number INTEGER NOT NULL,
+  status       TEXT NOT NULL,               -- started | finished
+  claimed_by   TEXT,                        -- publisher who started the block
+  started_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at  TIMESTAMPTZ,
+  PRIMARY KEY (session_id, block_number)
+);
+
+-- Blocks assigned by the overseer to a publisher or pair within a session
+CREATE TABLE IF NOT EXISTS session_block_assignments (
+  session_id   UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  block_number INTEGER NOT NULL,
+  assignee     TEXT NOT NULL,               -- e.g. "Anna & Ben"
+  assigned_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (session_id, block_number)
+);
+
+-- Return-visit pool per map, fed from ended sessions (status: open | contacted | dropped)
+CREATE TABLE IF NOT EXISTS return_visits (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  map_id          UUID NOT NULL REFERENCES territory_maps(id) ON DELETE CASCADE,
+  block_number    INTEGER NOT NULL,
+  unit_number     TEXT,
+  house_number    TEXT NOT NULL,
+  street_name     TEXT NOT NULL,
+  suburb          TEXT,
+  status          TEXT NOT NULL DEFAULT 'open',
+  attempts        INTEGER NOT NULL DEFAULT 1,        -- sessions the house was not home
+  last_session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+  first_seen_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at     TIMESTAMPTZ,
+  address_key     TEXT                               -- normalised unit/house/street for matching
+);
+CREATE INDEX IF NOT EXISTS idx_return_visits_map ON return_visits(map_id, status);
+ALTER TABLE return_visits ADD COLUMN IF NOT EXISTS address_key TEXT;
+
+-- Live-update feed tailed by the session SSE stream (pruned by the expiry cron)
+CREATE TABLE IF NOT EXISTS session_events (
+  id          BIGSERIAL PRIMARY KEY,
+  session_id  UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  type        TEXT NOT NULL,               -- address_added | address_deleted | dnc_touched | dnc_deleted | return_visit_updated | block_updated | blocks_assigned | session_ended
+  payload     JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Failed-login throttling for PIN and admin logins (scope: ip | congregation | admin)
+CREATE TABLE IF NOT EXISTS login_throttles (
+  scope           TEXT NOT NULL,
+  key             TEXT NOT NULL,                 -- IP, lower-cased congregation name or admin email
+  failures        INTEGER NOT NULL DEFAULT 0,
+  locked_until    TIMESTAMPTZ,
+  last_failure_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (scope, key)
+);
 
 -- New congregation requests
 CREATE TABLE IF NOT EXISTS congregation_requests (
@@ -94,5 +224,9 @@ CREATE INDEX IF NOT EXISTS idx_sessions_code ON sessions(code);
 CREATE INDEX IF NOT EXISTS idx_sessions_congregation ON sessions(congregation_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_active ON sessions(is_active, expires_at);
 CREATE INDEX IF NOT EXISTS idx_addresses_session ON not_at_home_addresses(session_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_addresses_client_key ON not_at_home_addresses(session_id, client_key) WHERE client_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_addresses_address_key ON not_at_home_addresses(session_id, address_key);
+CREATE INDEX IF NOT EXISTS idx_dnc_address_key ON do_not_call(map_id, address_key);
+CREATE INDEX IF NOT EXISTS idx_session_events_session ON session_events(session_id, id);
 CREATE INDEX IF NOT EXISTS idx_maps_congregation ON territory_maps(congregation_id);
 CREATE INDEX IF NOT EXISTS idx_admins_congregation ON congregation_admins(congregation_id);
@@ -0,0 +1,94 @@
+import sql from './db';
+import { addressKey, addressKeyFromText, dncAddressFields } from './address';
+
+// Normalised address keys (see address.ts) on Do Not Call and not-at-home
+// records, and the structured unit/house/street/suburb fields on Do Not Call
+// entries.
+let ensured: Promise<unknown> | null = null;
+export function ensureAddressKeys() {
+  if (!ensured) {
+    ensured = (async () => {
+      await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS address_key TEXT`;
+      await sql`ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS address_key TEXT`;
+      await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS unit_number TEXT`;
+      await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS house_number TEXT`;
+      await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS street_name TEXT`;
+      await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS suburb TEXT`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_dnc_address_key ON do_not_call(map_id, address_key)`;
+      await sql`CREATE INDEX IF NOT EXISTS idx_addresses_address_key ON not_at_home_addresses(session_id, address_key)`;
+    })().catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
+
+type DncRow = { id: string; address: string };
+type AddressRow = { id: string; unit_number: string | null; house_number: string; street_name: string };
+
+async function keyDnc(dnc: DncRow[]) {
+  if (!dnc.length) return;
+  const fields = dnc.map((r) => dncAddressFields(r.address));
+  await sql`
+    UPDATE do_not_call x SET address_key = d.key, unit_number = d.unit_number, house_number = d.house_number,
+           street_name = d.street_name, suburb = d.suburb
+    FROM unnest(
+      ${dnc.map((r) => r.id)}::uuid[], ${dnc.map((r) => addressKeyFromText(r.address))}::text[],
+      ${fields.map((f) => f.unit_number)}::text[], ${fields.map((f) => f.house_number)}::text[],
+      ${fields.map((f) => f.street_name)}::text[], ${fields.map((f) => f.suburb)}::text[]
+    ) AS d(id, key, unit_number, house_number, street_name, suburb)
+    WHERE x.id = d.id
+  `;
+}
+
+async function keyAddresses(addrs: AddressRow[]) {
+  if (!addrs.length) return;
+  await sql`
+    UPDATE not_at_home_addresses x SET address_key = d.key
+    FROM unnest(${addrs.map((r) => r.id)}::uuid[], ${addrs.map((r) => addressKey(r))}::text[]) AS d(id, key)
+    WHERE x.id = d.id
+  `;
+}
+
+// Keys and parses rows written before the columns existed, and retries DNC
+// text that didn't parse (keyed "<words>||") in case the parser now reads it.
+// It reads whole tables, so it only runs (once per instance) from admin pages,
+// session end and the expiry cron, never from public routes.
+let backfilled: Promise<unknown> | null = null;
+export function backfillAddressKeys() {
+  if (!backfilled) {
+    backfilled = (async () => {
+      await ensureAddressKeys();
+      await keyDnc(await sql`
+        SELECT id, address FROM do_not_call WHERE address_key IS NULL OR street_name IS NULL OR address_key LIKE '%||'
+      ` as DncRow[]);
+      await keyAddresses(await sql`
+        SELECT id, unit_number, house_number, street_name FROM not_at_home_addresses WHERE address_key IS NULL
+      ` as AddressRow[]);
+    })().catch((e) => { backfilled = null; throw e; });
+  }
+  return backfilled;
+}
+
+// The same for one running session — its addresses and its map's DNC list —
+// so recording can match on address_key before the full backfill has run.
+// Once per session per instance.
+const sessionsKeyed = new Map<string, Promise<unknown>>();
+export function backfillSessionAddressKeys(sessionId: string) {
+  let run = sessionsKeyed.get(sessionId);
+  if (!run) {
+    run = (async () => {
+      await ensureAddressKeys();
+      await keyDnc(await sql`
+        SELECT d.id, d.address FROM do_not_call d
+        JOIN territory_maps m ON m.id = d.map_id
+        JOIN sessions s ON s.congregation_id = m.congregation_id AND s.map_number = m.map_number
+        WHERE s.id = ${sessionId} AND (d.address_key IS NULL OR d.street_name IS NULL)
+      ` as DncRow[]);
+      await keyAddresses(await sql`
+        SELECT id, unit_number, house_number, street_name FROM not_at_home_addresses
+        WHERE session_id = ${sessionId} AND address_key IS NULL
+      ` as AddressRow[]);
+    })().catch((e) => { sessionsKeyed.delete(sessionId); throw e; });
+    sessionsKeyed.set(sessionId, run);
+  }
+  return run;
+}
@@ -0,0 +1,100 @@
+// Address normalisation. The same house gets written many ways — "12 Smith St",
+// "12 Smith Street", "12 smith st.", "3/12" or "Unit 3, 12" — so Do Not Call
+// and not-at-home records are matched on a normalised key rather than their
+// text (do_not_call.address_key, not_at_home_addresses.address_key). The key
+// also sorts sensibly: by street, then house number, then unit. Safe to import
+// in the browser.
+
+export type AddressParts = {
+  unit_number: string | null;
+  house_number: string;
+  street_name: string;
+  suburb: string | null;
+};
+
+// Australia Post street types plus common variants, all to one spelling
+const ABBREVIATIONS: Record<string, string> = {
+  alley: 'al', arcade: 'arc', avenue: 'ave', av: 'ave', boulevard: 'bvd', boulevarde: 'bvd', blvd: 'bvd',
+  circle: 'cir', circuit: 'cct', close: 'cl', court: 'ct', crescent: 'cres', cr: 'cres', cresent: 'cres',
+  drive: 'dr', drv: 'dr', esplanade: 'esp', grove: 'gr', gve: 'gr', highway: 'hwy', lane: 'ln',
+  parade: 'pde', parkway: 'pkwy', place: 'pl', promenade: 'prom', road: 'rd', square: 'sq',
+  street: 'st', str: 'st', terrace: 'tce', ter: 'tce', walk: 'wlk', way: 'wy', wy: 'wy',
+  saint: 'st', mount: 'mt', north: 'n', south: 's', east: 'e', west: 'w',
+};
+
+// Words that end the street name; anything after one (other than a
+// direction, as in "Smith St North") is taken to be the suburb
+const STREET_TYPES = new Set(['al', 'arc', 'ave', 'bvd', 'cir', 'cct', 'cl', 'ct', 'cres', 'dr', 'esp', 'gr', 'hwy',
+  'ln', 'pde', 'pkwy', 'pl', 'prom', 'rd', 'sq', 'st', 'tce', 'wlk', 'wy']);
+const DIRECTIONS = new Set(['n', 's', 'e', 'w']);
+
+const UNIT_PREFIX = /^\s*(?:unit|u|apt|apartment|flat|villa|townhouse|suite|shop)\s*#?\s*([a-z]?\d+[a-z]?)\s*[,/]?\s*(.*)$/i;
+const UNIT_SLASH = /^\s*([a-z]?\d+[a-z]?)\s*\/\s*(.*)$/i;
+// "12", "42A", "42 A", "42-A", "12-14"
+const HOUSE = /^\s*(\d+)\s*(?:-?\s*([a-z])(?![a-z]))?(?:\s*-\s*(\d+[a-z]?))?\s*,?\s+(.+)$/i;
+
+const words = (s: string) => s.toLowerCase().replace(/[.'’]/g, '').split(/[^a-z0-9]+/).filter(Boolean);
+const abbreviate = (w: string) => ABBREVIATIONS[w] ?? w;
+
+// Splits free text such as "Unit 3, 42A Smith Street, Springfield" into its
+// parts (as written, not normalised). Null when there is no house number.
+export function parseAddress(text: string): AddressParts | null {
+  let rest = text.trim();
+  let unit: string | null = null;
+  const u = rest.match(UNIT_PREFIX) || rest.match(UNIT_SLASH);
+  if (u) { unit = u[1].toUpperCase(); rest = u[2]; }
+
+  const h = rest.match(HOUSE);
+  if (!h) return null;
+  const house = `${h[1]}${h[2] || ''}${h[3] ? `-${h[3]}` : ''}`.toUpperCase();
+
+  const [streetPart, ...suburbParts] = h[4].split(',').map((s) => s.trim().replace(/\.$/, '')).filter(Boolean);
+  if (!streetPart) return null;
+  let street = streetPart;
+  let suburb = suburbParts.join(', ') || null;
+  if (!suburb) {
+    // No comma: "12 Church St Parramatta" — split after the last street type
+    const raw = streetPart.split(/\s+/);
+    const norm = raw.map((w) => abbreviate(words(w).join('')));
+    let last = -1;
+    norm.forEach((w, i) => { if (i > 0 && STREET_TYPES.has(w)) last = i; });
+    if (last !== -1 && last < raw.length - 1 && !norm.slice(last + 1).every((w) => DIRECTIONS.has(w))) {
+      street = raw.slice(0, last + 1).join(' ');
+      suburb = raw.slice(last + 1).join(' ');
+    }
+  }
+  return { unit_number: unit, house_number: house, street_name: street.replace(/\.$/, ''), suburb };
+}
+
+// Structured fields for a Do Not Call entry's free-text address. Text that
+// can't be parsed is kept whole as the street name so it still lists and sorts.
+export function dncAddressFields(text: string): Omit<AddressParts, 'house_number'> & { house_number: string | null } {
+  return parseAddress(text) ?? { unit_number: null, house_number: null, street_name: text.trim(), suburb: null };
+}
+
+// Side of the street, as the share summary groups houses (42A is even)
+export function streetSide(houseNumber: string | null | undefined): 'even' | 'odd' | null {
+  const n = parseInt(houseNumber || '', 10);
+  return Number.isNaN(n) ? null : n % 2 === 0 ? 'even' : 'odd';
+}
+
+// Digits zero-padded so keys sort numerically: "7" < "12" < "12a"
+const pad = (s: string) => s.replace(/^0*(\d+)/, (_, d: string) => d.padStart(6, '0'));
+
+// "smith st|000012a|000003" for Unit 3, 12A Smith Street. The suburb is left
+// out: registers often omit it, and a map rarely spans two streets of the
+// same name.
+export function addressKey(a: { unit_number?: string | null; house_number: string; street_name: string }) {
+  const street = words(a.street_name).map(abbreviate).join(' ');
+  // "42 A" and "42-A" are 42A (as parseAddress reads them); "12 - 14" stays a range
+  const house = words(a.house_number.replace(/(\d)[\s-]*(?=[a-z](?![a-z]))/gi, '$1')).join('-');
+  const unit = a.unit_number ? words(a.unit_number).join('') : '';
+  return `${street}|${pad(house)}|${unit ? pad(unit) : ''}`;
+}
+
+// Key for free text (DNC registers); text without a house number is keyed
+// on its normalised words alone
+export function addressKeyFromText(text: string) {
+  const parts = parseAddress(text);
+  return parts ? addressKey(parts) : `${words(text).map(abbreviate).join(' ')}||`;
+}
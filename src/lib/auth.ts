@@ -1,9 +1,15 @@
 import { SignJWT, jwtVerify } from 'jose';
 import { NextApiRequest, NextApiResponse } from 'next';
 import { serialize, parse } from 'cookie';
+import sql from './db';
+import { ensurePinHashColumn } from './pin';
 
 const SECRET = new TextEncoder().encode(process.env.JWT_SECRET || 'change-me-in-production-32chars!!');
 const COOKIE = 'nah_admin';
+// Every token type is signed with SECRET, so each gets its own audience and
+// is only accepted where that audience is required
+const ADMIN_AUDIENCE = 'nah:admin';
+const ADMIN_ROLES: AdminPayload['role'][] = ['super_admin', 'congregation_admin'];
 
 export type AdminPayload = {
   sub: string;           // admin id
@@ -16,13 +22,15 @@ export type AdminPayload = {
 export async function signAdminToken(payload: AdminPayload): Promise<string> {
   return new SignJWT({ ...payload })
     .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(ADMIN_AUDIENCE)
     .setExpirationTime('8h')
     .sign(SECRET);
 }
 
 export async function verifyAdminToken(token: string): Promise<AdminPayload | null> {
   try {
-    const { payload } = await jwtVerify(token, SECRET);
+    const { payload } = await jwtVerify(token, SECRET, { audience: ADMIN_AUDIENCE });
+    if (!ADMIN_ROLES.includes(payload.role as AdminPayload['role'])) return null;
     return payload as unknown as AdminPayload;
   } catch {
     return null;
@@ -73,3 +81,121 @@ export function requireSuperAdmin(handler: Handler) {
     await handler(req, res, admin);
   };
 }
+
+// Session participant tokens — issued when joining a session and sent back as
+// `Authorization: Bearer <token>` on every write to that session.
+const PARTICIPANT_AUDIENCE = 'nah:participant';
+
+export type ParticipantPayload = {
+  sub: string;           // session id
+  code: string;
+  congregation_id: string;
+  role: 'overseer' | 'publisher';
+};
+
+export async function signParticipantToken(payload: ParticipantPayload, expiresAt: Date | string): Promise<string> {
+  return new SignJWT({ ...payload })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(PARTICIPANT_AUDIENCE)
+    .setExpirationTime(new Date(expiresAt))
+    .sign(SECRET);
+}
+
+export async function verifyParticipantToken(token: string): Promise<ParticipantPayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, SECRET, { audience: PARTICIPANT_AUDIENCE });
+    return payload as unknown as ParticipantPayload;
+  } catch {
+    return null;
+  }
+}
+
+export async function getParticipantFromRequest(req: NextApiRequest): Promise<ParticipantPayload | null> {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !token) return null;
+  return verifyParticipantToken(token);
+}
+
+type ParticipantHandler = (req: NextApiRequest, res: NextApiResponse, participant: ParticipantPayload) => Promise<unknown>;
+
+export function requireParticipant(handler: ParticipantHandler, role?: ParticipantPayload['role']) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    const participant = await getParticipantFromRequest(req);
+    if (!participant) { res.status(401).json({ error: 'Join the session to continue' }); return; }
+    if (role && participant.role !== role) { res.status(403).json({ error: 'Forbidden' }); return; }
+    await handler(req, res, participant);
+  };
+}
+
+// Congregation cookie — set by the PIN login; publisher/overseer endpoints take
+// the congregation from here rather than from a client-supplied id.
+const CONGREGATION_COOKIE = 'nah_congregation';
+const CONGREGATION_AUDIENCE = 'nah:congregation';
+
+export type CongregationPayload = {
+  sub: string;           // congregation id
+  name: string;
+  pin_version?: number;  // congregations.pin_version at login (absent = 0)
+};
+
+export async function signCongregationToken(payload: CongregationPayload): Promise<string> {
+  return new SignJWT({ ...payload })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setAudience(CONGREGATION_AUDIENCE)
+    .setExpirationTime('30d')
+    .sign(SECRET);
+}
+
+export async function verifyCongregationToken(token: string): Promise<CongregationPayload | null> {
+  try {
+    const { payload } = await jwtVerify(token, SECRET, { audience: CONGREGATION_AUDIENCE });
+    // A congregation login never carries a role; refuse anything that does
+    if (typeof payload.sub !== 'string' || typeof payload.name !== 'string' || 'role' in payload) return null;
+    return payload as unknown as CongregationPayload;
+  } catch {
+    return null;
+  }
+}
+
+export function setCongregationCookie(res: NextApiResponse, token: string) {
+  res.setHeader('Set-Cookie', serialize(CONGREGATION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 60 * 60 * 24 * 30, // 30 days
+  }));
+}
+
+export function clearCongregationCookie(res: NextApiResponse) {
+  res.setHeader('Set-Cookie', serialize(CONGREGATION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  }));
+}
+
+export async function getCongregationFromRequest(req: NextApiRequest): Promise<CongregationPayload | null> {
+  const cookies = parse(req.headers.cookie || '');
+  const token = cookies[CONGREGATION_COOKIE];
+  if (!token) return null;
+  const congregation = await verifyCongregationToken(token);
+  if (!congregation) return null;
+  // Logins from before the PIN last changed are no longer valid
+  await ensurePinHashColumn();
+  const rows = await sql`SELECT pin_version FROM congregations WHERE id = ${congregation.sub} LIMIT 1`;
+  if (!rows.length || rows[0].pin_version !== (congregation.pin_version ?? 0)) return null;
+  return congregation;
+}
+
+type CongregationHandler = (req: NextApiRequest, res: NextApiResponse, congregation: CongregationPayload) => Promise<unknown>;
+
+export function requireCongregation(handler: CongregationHandler) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    const congregation = await getCongregationFromRequest(req);
+    if (!congregation) { res.status(401).json({ error: 'Congregation login required' }); return; }
+    await handler(req, res, congregation);
+  };
+}
@@ -0,0 +1,96 @@
+import ExcelJS from 'exceljs';
+
+// Excel (.xlsx) reading and writing for Do Not Call registers. Imports go
+// through the same column-mapping step as CSV, so reading only turns a
+// workbook into a header row plus text rows.
+
+export type DncExportRow = {
+  map_number: number; map_name: string | null; block_number: number | null; address: string;
+  note: string | null; reason: string | null; last_visit: string | null;
+};
+
+export type DncExportLayout = 'combined' | 'sheets';
+
+// Dates are written the way the app records last visits ("1 May 2025")
+function cellText(v: ExcelJS.CellValue): string {
+  if (v == null) return '';
+  if (v instanceof Date) return v.toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+  if (typeof v === 'object') {
+    if ('richText' in v) return v.richText.map((t) => t.text).join('');
+    if ('text' in v) return String(v.text);
+    if ('result' in v) return cellText(v.result as ExcelJS.CellValue);
+    if ('error' in v) return '';
+  }
+  return String(v).trim();
+}
+
+// Every non-empty sheet, with columns lined up by header name. When the
+// workbook has several sheets a leading "Sheet" column holds the sheet name,
+// so a workbook with one sheet per map can map that column to the map number.
+export async function readWorkbookRows(data: Buffer): Promise<{ headers: string[]; rows: string[][] }> {
+  const wb = new ExcelJS.Workbook();
+  await wb.xlsx.load(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+  const sheets = wb.worksheets.filter((ws) => ws.actualRowCount > 0);
+  const multi = sheets.length > 1;
+  const headers: string[] = multi ? ['Sheet'] : [];
+  const rows: string[][] = [];
+
+  for (const ws of sheets) {
+    let columns: number[] = []; // sheet column → output column
+    ws.eachRow((row) => {
+      const cells = (row.values as ExcelJS.CellValue[]).slice(1).map(cellText);
+      if (!columns.length) {
+        columns = cells.map((h) => {
+          const name = h || `Column ${headers.length + 1}`;
+          const at = headers.findIndex((x) => x.toLowerCase() === name.toLowerCase());
+          if (at !== -1) return at;
+          headers.push(name);
+          return headers.length - 1;
+        });
+        return;
+      }
+      if (cells.every((c) => !c)) return;
+      const out: string[] = multi ? [ws.name] : [];
+      cells.forEach((c, i) => { if (columns[i] != null) out[columns[i]] = c; });
+      rows.push(out);
+    });
+  }
+  return { headers, rows: rows.map((r) => headers.map((_, i) => r[i] ?? '')) };
+}
+
+const COLUMNS = [
+  { header: 'Block', key: 'block_number', width: 8 },
+  { header: 'Address', key: 'address', width: 36 },
+  { header: 'Note', key: 'note', width: 20 },
+  { header: 'Reason', key: 'reason', width: 30 },
+  { header: 'Last Visit', key: 'last_visit', width: 18 },
+];
+
+function addSheet(wb: ExcelJS.Workbook, name: string, columns: Partial<ExcelJS.Column>[], rows: DncExportRow[]) {
+  const ws = wb.addWorksheet(name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31), { views: [{ state: 'frozen', ySplit: 1 }] });
+  ws.columns = columns;
+  ws.getRow(1).font = { bold: true };
+  ws.addRows(rows);
+  ws.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+}
+
+export async function dncWorkbook(rows: DncExportRow[], layout: DncExportLayout, title: string): Promise<Buffer> {
+  const wb = new ExcelJS.Workbook();
+  wb.creator = 'Not At Home';
+  wb.title = title;
+  if (layout === 'sheets') {
+    const byMap = new Map<number, DncExportRow[]>();
+    for (const r of rows) byMap.set(r.map_number, [...(byMap.get(r.map_number) || []), r]);
+    for (const [mapNumber, list] of Array.from(byMap.entries()).sort(([a], [b]) => a - b)) {
+      addSheet(wb, `Map ${mapNumber}${list[0].map_name ? ` ${list[0].map_name}` : ''}`, COLUMNS, list);
+    }
+    if (!byMap.size) addSheet(wb, 'Do Not Call', COLUMNS, []);
+  } else {
+    addSheet(wb, 'Do Not Call', [
+      { header: 'Map Number', key: 'map_number', width: 12 },
+      { header: 'Map Name', key: 'map_name', width: 20 },
+      ...COLUMNS,
+    ], rows);
+  }
+  return Buffer.from(await wb.xlsx.writeBuffer());
+}
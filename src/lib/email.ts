@@ -43,6 +43,7 @@ export async function sendSessionExpiredEmail(opts: {
   sessionCode: string;
   mapNumber: number;
   addresses: Array<{ block_number: number; house_number: string; unit_number?: string; street_name: string; suburb?: string }>;
+  blocks?: { completed: number[]; started: number[]; untouched: number[] };
 }) {
   const byBlock: Record<number, typeof opts.addresses> = {};
   for (const a of opts.addresses) {
@@ -66,6 +67,10 @@ export async function sendSessionExpiredEmail(opts: {
     <p><strong>Congregation:</strong> ${opts.congregationName}</p>
     <p><strong>Session code:</strong> ${opts.sessionCode} &nbsp;|&nbsp; <strong>Map:</strong> ${opts.mapNumber}</p>
     <p style="color:#b45309">⚠️ This session was not closed by the Group Overseer and has been automatically ended after 24 hours.</p>
+    ${opts.blocks ? `
+    <p><strong>Blocks completed:</strong> ${opts.blocks.completed.join(', ') || 'None'}<br/>
+    <strong>Started, not finished:</strong> ${opts.blocks.started.join(', ') || 'None'}<br/>
+    <strong>Untouched:</strong> ${opts.blocks.untouched.join(', ') || 'None'}</p>` : ''}
     <hr/>
     ${rows || '<p>No addresses were recorded.</p>'}
   `;
@@ -84,3 +89,32 @@ export async function sendSessionExpiredEmail(opts: {
     html,
   });
 }
+
+export async function sendLockoutEmail(opts: {
+  to: string;
+  congregationName: string;
+  account: string;          // what was locked, e.g. "Congregation PIN login"
+  failures: number;
+}) {
+  const appUrl = process.env.NEXT_PUBLIC_URL || 'https://nothome.app';
+  const html = `
+    <h2>Not At Home — Login temporarily locked</h2>
+    <p>There have been <strong>${opts.failures}</strong> failed login attempts for <strong>${opts.account}</strong> (${opts.congregationName}).</p>
+    <p>Further attempts are blocked for a short time, and the wait grows with each additional failure.</p>
+    <p style="color:#6b7280;font-size:13px">If this wasn't someone from your congregation, consider rotating the PIN or password from the <a href="${appUrl}/congregation-admin">admin panel</a>.</p>
+  `;
+
+  const nodemailer = await import('nodemailer');
+  const transporter = nodemailer.createTransport({
+    host: 'smtp.improvmx.com',
+    port: 587,
+    secure: false,
+    auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS },
+  });
+  await transporter.sendMail({
+    from: `Not At Home <${process.env.SMTP_USER}>`,
+    to: opts.to,
+    subject: `[Not At Home] Login locked after failed attempts — ${opts.congregationName}`,
+    html,
+  });
+}
@@ -0,0 +1,79 @@
+import sql from './db';
+
+export type SessionEventType =
+  | 'address_added'
+  | 'address_deleted'
+  | 'dnc_touched'
+  | 'dnc_deleted'
+  | 'return_visit_updated'
+  | 'block_updated'
+  | 'blocks_assigned'
+  | 'session_ended';
+
+export type SessionEvent = {
+  id: number;
+  type: SessionEventType;
+  payload: Record<string, unknown>;
+};
+
+// Events are appended to a table rather than pushed in memory: serverless
+// instances don't share state, so each SSE stream tails the table instead.
+let ensured: Promise<unknown> | null = null;
+export function ensureSessionEvents() {
+  if (!ensured) {
+    ensured = sql`
+      CREATE TABLE IF NOT EXISTS session_events (
+        id          BIGSERIAL PRIMARY KEY,
+        session_id  UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        type        TEXT NOT NULL,
+        payload     JSONB NOT NULL DEFAULT '{}'::jsonb,
+        created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `.catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
+
+// Best-effort — a failed publish must never fail the write that triggered it;
+// clients reload the full list after falling back to polling.
+export async function publishSessionEvent(sessionId: string, type: SessionEventType, payload: Record<string, unknown> = {}) {
+  try {
+    await ensureSessionEvents();
+    await sql`
+      INSERT INTO session_events (session_id, type, payload)
+      VALUES (${sessionId}, ${type}, ${JSON.stringify(payload)}::jsonb)
+    `;
+  } catch (e) {
+    console.error('Session event publish failed:', e);
+  }
+}
+
+// DNC entries belong to a map, so a change is fanned out to every active
+// session currently working that map.
+export async function publishMapEvent(congregationId: string, mapNumber: number, type: SessionEventType, payload: Record<string, unknown> = {}) {
+  try {
+    await ensureSessionEvents();
+    await sql`
+      INSERT INTO session_events (session_id, type, payload)
+      SELECT id, ${type}, ${JSON.stringify(payload)}::jsonb FROM sessions
+      WHERE congregation_id = ${congregationId} AND map_number = ${mapNumber}
+        AND is_active = true AND expires_at > NOW()
+    `;
+  } catch (e) {
+    console.error('Map event publish failed:', e);
+  }
+}
+
+export async function listSessionEvents(sessionId: string, afterId: number): Promise<SessionEvent[]> {
+  const rows = await sql`
+    SELECT id, type, payload FROM session_events
+    WHERE session_id = ${sessionId} AND id > ${afterId}
+    ORDER BY id LIMIT 200
+  `;
+  return rows.map((r) => ({ id: Number(r.id), type: r.type as SessionEventType, payload: r.payload as Record<string, unknown> }));
+}
+
+export async function latestSessionEventId(sessionId: string): Promise<number> {
+  const rows = await sql`SELECT COALESCE(MAX(id), 0)::bigint AS id FROM session_events WHERE session_id = ${sessionId}`;
+  return Number(rows[0]?.id || 0);
+}
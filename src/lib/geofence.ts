@@ -0,0 +1,36 @@
+import sql from './db';
+import { distanceOutside, PolygonGeometry } from './map-geometry';
+import { ensureMapOutlines } from './map-outlines';
+
+// Records whose GPS fix lies outside the session's map boundary — usually a
+// publisher who forgot to switch sessions — are refused unless the publisher
+// confirms them. Each congregation sets how far outside is still accepted.
+export const DEFAULT_GEOFENCE_TOLERANCE_M = 100;
+export const MAX_GEOFENCE_TOLERANCE_M = 5000;
+
+let ensured: Promise<unknown> | null = null;
+export function ensureGeofence() {
+  if (!ensured) {
+    ensured = (async () => {
+      await ensureMapOutlines();
+      await sql`ALTER TABLE congregations ADD COLUMN IF NOT EXISTS geofence_tolerance_m INTEGER NOT NULL DEFAULT 100`;
+      await sql`ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS outside_boundary BOOLEAN NOT NULL DEFAULT false`;
+    })().catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
+
+// Null when the point is inside (or within tolerance of) the map, or the map
+// has no boundary; otherwise how far outside it is.
+export async function checkGeofence(congregationId: string, mapNumber: number, latitude: number, longitude: number) {
+  await ensureGeofence();
+  const rows = await sql`
+    SELECT m.boundary, c.geofence_tolerance_m
+    FROM territory_maps m JOIN congregations c ON c.id = m.congregation_id
+    WHERE m.congregation_id = ${congregationId} AND m.map_number = ${mapNumber} LIMIT 1
+  `;
+  if (!rows.length || !rows[0].boundary) return null;
+  const distance = distanceOutside(rows[0].boundary as PolygonGeometry, latitude, longitude);
+  const tolerance = Number(rows[0].geofence_tolerance_m);
+  return distance > tolerance ? { map_number: mapNumber, distance_m: Math.round(distance), tolerance_m: tolerance } : null;
+}
@@ -0,0 +1,48 @@
+import QRCode from 'qrcode';
+
+// Browser helpers for inviting publishers to a session: the join URL, a QR
+// code for it (rendered locally — nothing is sent to a third-party service)
+// and a printable join card.
+
+export function joinUrl(code: string) {
+  return `${window.location.origin}/session/${code}`;
+}
+
+export function joinQrDataUrl(code: string, size = 320): Promise<string> {
+  return QRCode.toDataURL(joinUrl(code), { width: size, margin: 1, errorCorrectionLevel: 'M' });
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+// Opens a print-ready card (code, map number, QR) in a new window
+export async function printJoinCard({ code, mapNumber, congregation }: { code: string; mapNumber: number; congregation?: string }) {
+  const win = window.open('', '_blank');
+  if (!win) { alert('Allow pop-ups to print the join card'); return; }
+  const qr = await joinQrDataUrl(code, 480);
+  win.document.write(`<!doctype html>
+<html><head><title>Join session ${escapeHtml(code)}</title>
+<style>
+  @page { size: A6; margin: 8mm; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 0; display: flex; justify-content: center; }
+  .card { width: 100mm; border: 2px dashed #d1d5db; border-radius: 12px; padding: 16px; text-align: center; }
+  .label { font-size: 12px; font-weight: 700; letter-spacing: 1px; color: #6b7280; text-transform: uppercase; }
+  .code { font-size: 40px; font-weight: 800; letter-spacing: 6px; margin: 4px 0 8px; }
+  .map { font-size: 18px; font-weight: 600; margin-bottom: 8px; }
+  img { width: 60mm; height: 60mm; }
+  .url { font-size: 11px; color: #6b7280; word-break: break-all; margin-top: 6px; }
+  @media print { .card { border-color: #9ca3af; } }
+</style></head>
+<body><div class="card">
+  ${congregation ? `<div class="label">${escapeHtml(congregation)}</div>` : ''}
+  <div class="label">Not At Home — Session Code</div>
+  <div class="code">${escapeHtml(code)}</div>
+  <div class="map">📍 Map ${mapNumber}</div>
+  <img src="${qr}" alt="QR code" />
+  <div class="url">Scan or open ${escapeHtml(joinUrl(code))}</div>
+</div>
+<script>window.onload = function () { window.print(); };</script>
+</body></html>`);
+  win.document.close();
+}
@@ -0,0 +1,179 @@
+// Territory map outlines. A map can have GeoJSON outlines — an optional
+// boundary and one polygon per block (territory_maps.boundary, block_shapes) —
+// and/or block hotspots drawn on its scanned image. Safe to import in the browser.
+
+export type Position = [number, number]; // [longitude, latitude]
+
+export type PolygonGeometry =
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] };
+
+export type BlockShape = {
+  type: 'Feature';
+  properties: { block_number: number; name?: string };
+  geometry: PolygonGeometry;
+};
+
+export type BlockShapes = { type: 'FeatureCollection'; features: BlockShape[] };
+
+export type MapGeometry = { boundary: PolygonGeometry | null; block_shapes: BlockShapes | null };
+
+export class GeometryError extends Error {}
+
+// Block number from the usual property names: block_number, block, or a
+// name such as "Block 3" / "3"
+function blockNumberOf(props: Record<string, unknown>): number | null {
+  for (const key of ['block_number', 'block', 'Block', 'BLOCK']) {
+    const n = Number(props[key]);
+    if (props[key] != null && Number.isInteger(n) && n > 0) return n;
+  }
+  const name = typeof props.name === 'string' ? props.name.match(/^\s*(?:block\s*)?(\d+)\s*$/i) : null;
+  return name ? Number(name[1]) : null;
+}
+
+function isBoundary(props: Record<string, unknown>) {
+  return props.boundary === true || props.kind === 'boundary' || props.type === 'boundary';
+}
+
+function checkRing(ring: unknown, where: string): Position[] {
+  if (!Array.isArray(ring) || ring.length < 4) throw new GeometryError(`${where}: each ring needs at least 4 positions`);
+  return ring.map((p) => {
+    const [lon, lat] = Array.isArray(p) ? p.map(Number) : [NaN, NaN];
+    if (!Number.isFinite(lon) || !Number.isFinite(lat) || Math.abs(lon) > 180 || Math.abs(lat) > 90) {
+      throw new GeometryError(`${where}: invalid coordinate ${JSON.stringify(p)} (expected [longitude, latitude])`);
+    }
+    return [lon, lat] as Position;
+  });
+}
+
+export function checkPolygon(geometry: unknown, where: string): PolygonGeometry {
+  const g = geometry as { type?: string; coordinates?: unknown } | null;
+  if (g?.type === 'Polygon' && Array.isArray(g.coordinates) && g.coordinates.length) {
+    return { type: 'Polygon', coordinates: g.coordinates.map((r) => checkRing(r, where)) };
+  }
+  if (g?.type === 'MultiPolygon' && Array.isArray(g.coordinates) && g.coordinates.length) {
+    return {
+      type: 'MultiPolygon',
+      coordinates: g.coordinates.map((poly) => {
+        if (!Array.isArray(poly) || !poly.length) throw new GeometryError(`${where}: empty polygon`);
+        return poly.map((r) => checkRing(r, where));
+      }),
+    };
+  }
+  throw new GeometryError(`${where}: geometry must be a Polygon or MultiPolygon`);
+}
+
+// Splits a FeatureCollection into the boundary and block polygons. Features
+// with a block number become blocks; one feature marked as the boundary (or
+// the only feature without a block number) becomes the boundary.
+export function parseMapGeoJson(input: unknown, blockCount: number): MapGeometry {
+  const doc = typeof input === 'string' ? safeJson(input) : input as { type?: string; features?: unknown[] };
+  const features = doc?.type === 'FeatureCollection' && Array.isArray(doc.features)
+    ? doc.features
+    : doc?.type === 'Feature' ? [doc] : null;
+  if (!features) throw new GeometryError('Expected a GeoJSON FeatureCollection');
+
+  let boundary: PolygonGeometry | null = null;
+  const blocks = new Map<number, BlockShape>();
+  const unnamed: unknown[] = [];
+  for (const f of features as Array<{ properties?: Record<string, unknown> | null; geometry?: unknown }>) {
+    const props = f?.properties || {};
+    if (isBoundary(props)) {
+      if (boundary) throw new GeometryError('More than one boundary feature');
+      boundary = checkPolygon(f.geometry, 'Boundary');
+      continue;
+    }
+    const n = blockNumberOf(props);
+    if (n == null) { unnamed.push(f.geometry); continue; }
+    if (n > blockCount) throw new GeometryError(`Block ${n} is outside this map's ${blockCount} blocks`);
+    if (blocks.has(n)) throw new GeometryError(`Block ${n} appears more than once`);
+    blocks.set(n, {
+      type: 'Feature',
+      properties: { block_number: n, ...(typeof props.name === 'string' ? { name: props.name } : {}) },
+      geometry: checkPolygon(f.geometry, `Block ${n}`),
+    });
+  }
+  if (unnamed.length === 1 && !boundary) boundary = checkPolygon(unnamed[0], 'Boundary');
+  else if (unnamed.length) throw new GeometryError(`${unnamed.length} features have no block number — set a "block_number" property or mark the boundary with "boundary": true`);
+  if (!boundary && !blocks.size) throw new GeometryError('No polygons found');
+
+  return {
+    boundary,
+    block_shapes: blocks.size
+      ? { type: 'FeatureCollection', features: Array.from(blocks.values()).sort((a, b) => a.properties.block_number - b.properties.block_number) }
+      : null,
+  };
+}
+
+function safeJson(text: string) {
+  try { return JSON.parse(text); } catch { throw new GeometryError('File is not valid JSON'); }
+}
+
+// The stored geometry back as one FeatureCollection (boundary first)
+export function toFeatureCollection({ boundary, block_shapes }: MapGeometry) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: [
+      ...(boundary ? [{ type: 'Feature' as const, properties: { boundary: true }, geometry: boundary }] : []),
+      ...(block_shapes?.features || []),
+    ],
+  };
+}
+
+// Block hotspots drawn over a scanned map image, for maps without GeoJSON.
+// Points are fractions of the image width/height (0–1), so they survive
+// the image being displayed at any size. Stored in territory_maps.image_hotspots.
+export type ImageHotspot = { block_number: number; points: Array<[number, number]> };
+
+export function checkHotspots(input: unknown, blockCount: number): ImageHotspot[] {
+  if (!Array.isArray(input)) throw new GeometryError('hotspots must be an array');
+  const seen = new Set<number>();
+  return input.map((h: { block_number?: unknown; points?: unknown }) => {
+    const n = Number(h?.block_number);
+    if (!Number.isInteger(n) || n < 1 || n > blockCount) throw new GeometryError(`Block ${h?.block_number} is outside this map's ${blockCount} blocks`);
+    if (seen.has(n)) throw new GeometryError(`Block ${n} has more than one hotspot`);
+    seen.add(n);
+    if (!Array.isArray(h.points) || h.points.length < 3) throw new GeometryError(`Block ${n}: a hotspot needs at least 3 points`);
+    const points = h.points.map((p) => {
+      const [x, y] = Array.isArray(p) ? p.map(Number) : [NaN, NaN];
+      if (!(x >= 0 && x <= 1 && y >= 0 && y <= 1)) throw new GeometryError(`Block ${n}: points must lie on the image`);
+      return [Math.round(x * 10000) / 10000, Math.round(y * 10000) / 10000] as [number, number];
+    });
+    return { block_number: n, points };
+  }).sort((a, b) => a.block_number - b.block_number);
+}
+
+// Where to put a hotspot's label (mean of its points — fine for block shapes)
+export function hotspotCentre(points: Array<[number, number]>): [number, number] {
+  const sum = points.reduce(([sx, sy], [x, y]) => [sx + x, sy + y], [0, 0]);
+  return [sum[0] / points.length, sum[1] / points.length];
+}
+
+// How far (metres) a point lies outside a boundary — 0 when inside. Uses a
+// local flat projection, which is plenty accurate at territory scale.
+export function distanceOutside(boundary: PolygonGeometry, latitude: number, longitude: number): number {
+  const R = 6371000;
+  const kx = R * Math.cos(latitude * Math.PI / 180) * Math.PI / 180;
+  const ky = R * Math.PI / 180;
+  const polygons = boundary.type === 'Polygon' ? [boundary.coordinates] : boundary.coordinates;
+  let inside = false;
+  let nearest = Infinity;
+  for (const rings of polygons) {
+    let inThis = false;
+    for (const ring of rings) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const ax = (ring[j][0] - longitude) * kx, ay = (ring[j][1] - latitude) * ky;
+        const bx = (ring[i][0] - longitude) * kx, by = (ring[i][1] - latitude) * ky;
+        // Ray cast along +x from the point (origin); holes flip it back
+        if ((ay > 0) !== (by > 0) && ax + (0 - ay) * (bx - ax) / (by - ay) > 0) inThis = !inThis;
+        // Distance from the origin to segment a–b
+        const dx = bx - ax, dy = by - ay;
+        const len = dx * dx + dy * dy;
+        const t = len ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len)) : 0;
+        nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+      }
+    }
+    if (inThis) inside = true;
+  }
+  return inside ? 0 : nearest;
+}
@@ -0,0 +1,14 @@
+import sql from './db';
+
+// Columns holding a map's outlines (see map-geometry.ts for their shape)
+let ensured: Promise<unknown> | null = null;
+export function ensureMapOutlines() {
+  if (!ensured) {
+    ensured = (async () => {
+      await sql`ALTER TABLE territory_maps ADD COLUMN IF NOT EXISTS boundary JSONB`;
+      await sql`ALTER TABLE territory_maps ADD COLUMN IF NOT EXISTS block_shapes JSONB`;
+      await sql`ALTER TABLE territory_maps ADD COLUMN IF NOT EXISTS image_hotspots JSONB`;
+    })().catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
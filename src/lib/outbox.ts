@@ -0,0 +1,111 @@
+// Browser-side outbox for submissions made while offline. Requests are kept in
+// IndexedDB (survives reloads and the PWA being closed) and replayed in order
+// once the network is back.
+
+const DB_NAME = 'nah_offline';
+const STORE = 'outbox';
+
+export type OutboxItem = {
+  id?: number;
+  session_id: string;
+  kind: 'address' | 'dnc_request' | 'dnc_action' | 'return_visit' | 'block_status';
+  url: string;
+  method: 'POST';
+  headers?: Record<string, string>;
+  body: Record<string, unknown>;
+  queued_at: number;
+  // Set when the server refused the item (any 4xx): 409 needs a confirmation
+  // such as outside_ok, 401 a fresh sign-in; anything else (the session ended,
+  // the record was invalid) can only be copied out or discarded. Held items
+  // are skipped by replay until released.
+  held?: { status: number; error: string; response: Record<string, unknown> };
+};
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('session_id', 'session_id');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function tx<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).finally(() => db.close());
+}
+
+export function isOutboxSupported() {
+  return typeof indexedDB !== 'undefined';
+}
+
+export async function enqueue(item: Omit<OutboxItem, 'id' | 'queued_at'>): Promise<OutboxItem> {
+  const full: OutboxItem = { ...item, queued_at: Date.now() };
+  const id = await tx('readwrite', s => s.add(full));
+  return { ...full, id: Number(id) };
+}
+
+export async function listOutbox(sessionId?: string): Promise<OutboxItem[]> {
+  const all = await tx<OutboxItem[]>('readonly', s => s.getAll());
+  return (sessionId ? all.filter(i => i.session_id === sessionId) : all).sort((a, b) => (a.id || 0) - (b.id || 0));
+}
+
+export async function removeFromOutbox(id: number) {
+  await tx('readwrite', s => s.delete(id));
+}
+
+async function putOutboxItem(item: OutboxItem) {
+  await tx('readwrite', s => s.put(item));
+}
+
+// Sends a held item again on the next replay, with the publisher's
+// confirmation merged into its body and/or fresh headers
+export async function releaseOutboxItem(item: OutboxItem, body: Record<string, unknown> = {}, headers: Record<string, string> = {}) {
+  await putOutboxItem({ ...item, held: undefined, body: { ...item.body, ...body }, headers: { ...item.headers, ...headers } });
+}
+
+const replaying = new Map<string, Promise<number>>();
+
+// Replays one session's queued requests oldest-first and resolves with how
+// many were saved. Stops at the first network failure or 5xx (still offline /
+// server down). A 4xx will not succeed on a plain retry, so the item is held
+// with the server's error for the publisher to resolve.
+export function replayOutbox(sessionId: string): Promise<number> {
+  let run = replaying.get(sessionId);
+  if (!run) {
+    run = (async () => {
+      let sent = 0;
+      for (const item of await listOutbox(sessionId)) {
+        if (item.held) continue;
+        let res: Response;
+        try {
+          res = await fetch(item.url, {
+            method: item.method,
+            headers: { 'Content-Type': 'application/json', ...item.headers },
+            body: JSON.stringify(item.body),
+          });
+        } catch {
+          break;
+        }
+        if (res.status >= 500) break;
+        if (!res.ok) {
+          const response = await res.json().catch(() => ({}));
+          await putOutboxItem({ ...item, held: { status: res.status, error: response.error || 'Could not save', response } });
+          continue;
+        }
+        await removeFromOutbox(item.id!);
+        sent++;
+      }
+      return sent;
+    })().finally(() => { replaying.delete(sessionId); });
+    replaying.set(sessionId, run);
+  }
+  return run;
+}
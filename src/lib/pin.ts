@@ -0,0 +1,47 @@
+import { randomInt } from 'crypto';
+import bcrypt from 'bcryptjs';
+import sql from './db';
+
+// Congregation PINs are stored as bcrypt hashes in congregations.pin_hash.
+// Rows created before hashing still carry the plain pin_code; they are
+// upgraded the first time someone logs in with the correct PIN (schema.sql
+// also converts them in bulk with pgcrypto). congregations.pin_version goes
+// up with every PIN change and is carried in the congregation cookie, so a
+// change signs out everyone who logged in with the old PIN.
+
+let ensured: Promise<unknown> | null = null;
+export function ensurePinHashColumn() {
+  if (!ensured) {
+    ensured = (async () => {
+      await sql`ALTER TABLE congregations ADD COLUMN IF NOT EXISTS pin_hash TEXT`;
+      await sql`ALTER TABLE congregations ALTER COLUMN pin_code DROP NOT NULL`;
+      await sql`ALTER TABLE congregations ADD COLUMN IF NOT EXISTS pin_version INTEGER NOT NULL DEFAULT 0`;
+    })().catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
+
+export function generatePin(length = 6): string {
+  let pin = '';
+  for (let i = 0; i < length; i++) pin += randomInt(10).toString();
+  return pin;
+}
+
+export function hashPin(pin: string): Promise<string> {
+  return bcrypt.hash(pin.trim(), 10);
+}
+
+export async function verifyCongregationPin(
+  congregation: { id: string; pin_hash?: string | null; pin_code?: string | null },
+  pin: string,
+): Promise<boolean> {
+  if (congregation.pin_hash) return bcrypt.compare(pin.trim(), congregation.pin_hash);
+  if (!congregation.pin_code || congregation.pin_code !== pin.trim()) return false;
+
+  // Legacy plain-text PIN matched — replace it with a hash
+  await sql`
+    UPDATE congregations SET pin_hash = ${await hashPin(pin)}, pin_code = NULL
+    WHERE id = ${congregation.id}
+  `;
+  return true;
+}
@@ -0,0 +1,111 @@
+import type { NextApiRequest } from 'next';
+import sql from './db';
+
+// Failed-login throttling shared by every serverless instance (state lives in
+// Postgres). Each key gets a few free failures, then is locked out for an
+// exponentially growing period: 30s, 1m, 2m … capped at 1 hour.
+export type ThrottleScope = 'ip' | 'congregation' | 'admin';
+export type ThrottleKey = { scope: ThrottleScope; key: string };
+
+// Publishers at a Kingdom Hall share one IP, so the IP allowance is generous
+const FREE_FAILURES: Record<ThrottleScope, number> = { ip: 30, congregation: 5, admin: 5 };
+const BASE_LOCK_SECONDS = 30;
+const MAX_LOCK_SECONDS = 60 * 60;
+// A quiet day resets the failure count
+const RESET_AFTER = '24 hours';
+
+let ensured: Promise<unknown> | null = null;
+function ensureLoginThrottles() {
+  if (!ensured) {
+    ensured = sql`
+      CREATE TABLE IF NOT EXISTS login_throttles (
+        scope           TEXT NOT NULL,
+        key             TEXT NOT NULL,
+        failures        INTEGER NOT NULL DEFAULT 0,
+        locked_until    TIMESTAMPTZ,
+        last_failure_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        PRIMARY KEY (scope, key)
+      )
+    `.catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
+
+export function clientIp(req: NextApiRequest): string {
+  const fwd = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(fwd) ? fwd[0] : fwd)?.split(',')[0].trim();
+  return first || req.socket.remoteAddress || 'unknown';
+}
+
+export function lockSeconds(scope: ThrottleScope, failures: number): number {
+  const over = failures - FREE_FAILURES[scope];
+  if (over <= 0) return 0;
+  return Math.min(BASE_LOCK_SECONDS * 2 ** (over - 1), MAX_LOCK_SECONDS);
+}
+
+// Seconds until the longest active lock among `keys` expires (0 = not locked)
+export async function checkThrottle(keys: ThrottleKey[]): Promise<number> {
+  await ensureLoginThrottles();
+  let wait = 0;
+  for (const k of keys) {
+    const rows = await sql`
+      SELECT CEIL(EXTRACT(EPOCH FROM (locked_until - NOW())))::int AS wait FROM login_throttles
+      WHERE scope = ${k.scope} AND key = ${k.key} AND locked_until > NOW()
+    `;
+    if (rows.length) wait = Math.max(wait, Number(rows[0].wait));
+  }
+  return wait;
+}
+
+// Records a failed attempt against every key. Returns the keys that have just
+// become locked for the first time in this streak (for lockout notifications).
+export async function recordFailure(keys: ThrottleKey[]): Promise<Array<ThrottleKey & { failures: number }>> {
+  await ensureLoginThrottles();
+  const newlyLocked: Array<ThrottleKey & { failures: number }> = [];
+  for (const k of keys) {
+    const rows = await sql`
+      INSERT INTO login_throttles (scope, key, failures) VALUES (${k.scope}, ${k.key}, 1)
+      ON CONFLICT (scope, key) DO UPDATE SET
+        failures = CASE WHEN login_throttles.last_failure_at < NOW() - ${RESET_AFTER}::interval
+                        THEN 1 ELSE login_throttles.failures + 1 END,
+        last_failure_at = NOW()
+      RETURNING failures
+    `;
+    const failures = Number(rows[0].failures);
+    const seconds = lockSeconds(k.scope, failures);
+    if (seconds > 0) {
+      await sql`
+        UPDATE login_throttles SET locked_until = NOW() + ${`${seconds} seconds`}::interval
+        WHERE scope = ${k.scope} AND key = ${k.key}
+      `;
+      if (failures === FREE_FAILURES[k.scope] + 1) newlyLocked.push({ ...k, failures });
+    }
+  }
+  return newlyLocked;
+}
+
+export async function clearThrottle(keys: ThrottleKey[]) {
+  await ensureLoginThrottles();
+  for (const k of keys) {
+    await sql`DELETE FROM login_throttles WHERE scope = ${k.scope} AND key = ${k.key}`;
+  }
+}
+
+export async function listLockedThrottles() {
+  await ensureLoginThrottles();
+  return sql`
+    SELECT t.scope, t.key, t.failures, t.locked_until, t.last_failure_at,
+           COALESCE(c.name, ac.name) AS congregation_name
+    FROM login_throttles t
+    LEFT JOIN congregations c ON t.scope = 'congregation' AND LOWER(c.name) = t.key
+    LEFT JOIN congregation_admins ca ON t.scope = 'admin' AND ca.email = t.key
+    LEFT JOIN congregations ac ON ac.id = ca.congregation_id
+    WHERE t.locked_until > NOW()
+    ORDER BY t.locked_until DESC
+  `;
+}
+
+export function retryMessage(seconds: number): string {
+  const mins = Math.ceil(seconds / 60);
+  return `Too many failed attempts. Try again in ${seconds < 60 ? `${seconds} seconds` : `${mins} minute${mins === 1 ? '' : 's'}`}.`;
+}
@@ -0,0 +1,115 @@
+import sql from './db';
+import { addressKey } from './address';
+import { backfillAddressKeys } from './address-keys';
+
+// Return-visit pool per territory map. When a session ends, its not-at-home
+// addresses are carried into the pool; the next session on that map works
+// through them as a checklist. An entry stays open until a publisher marks it
+// contacted or drops it — "still not home" just counts another attempt.
+export type ReturnVisitOutcome = 'contacted' | 'not_home' | 'drop';
+
+export const RETURN_VISIT_OUTCOMES: ReturnVisitOutcome[] = ['contacted', 'not_home', 'drop'];
+
+let ensured: Promise<unknown> | null = null;
+export function ensureReturnVisits() {
+  if (!ensured) {
+    ensured = (async () => {
+      await sql`
+        CREATE TABLE IF NOT EXISTS return_visits (
+          id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          map_id          UUID NOT NULL REFERENCES territory_maps(id) ON DELETE CASCADE,
+          block_number    INTEGER NOT NULL,
+          unit_number     TEXT,
+          house_number    TEXT NOT NULL,
+          street_name     TEXT NOT NULL,
+          suburb          TEXT,
+          status          TEXT NOT NULL DEFAULT 'open',
+          attempts        INTEGER NOT NULL DEFAULT 1,
+          last_session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+          first_seen_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          last_seen_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          resolved_at     TIMESTAMPTZ
+        )
+      `;
+      await sql`CREATE INDEX IF NOT EXISTS idx_return_visits_map ON return_visits(map_id, status)`;
+      // Houses are matched on the normalised address key (see address.ts)
+      await sql`ALTER TABLE return_visits ADD COLUMN IF NOT EXISTS address_key TEXT`;
+      const unkeyed = await sql`SELECT id, unit_number, house_number, street_name FROM return_visits WHERE address_key IS NULL`;
+      if (unkeyed.length) {
+        await sql`
+          UPDATE return_visits x SET address_key = d.key
+          FROM unnest(${unkeyed.map((r) => r.id)}::uuid[], ${unkeyed.map((r) => addressKey(r as { house_number: string; street_name: string }))}::text[]) AS d(id, key)
+          WHERE x.id = d.id
+        `;
+      }
+    })().catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
+
+// Adds an ended session's addresses to its map's pool. Houses already open in
+// the pool get another attempt instead of a duplicate entry. Best-effort:
+// ending a session must not fail because of the pool.
+export async function feedReturnVisits(sessionId: string) {
+  try {
+    await ensureReturnVisits();
+    await backfillAddressKeys();
+    await sql`
+      UPDATE return_visits rv
+      SET attempts = rv.attempts + 1, last_session_id = ${sessionId}, last_seen_at = NOW()
+      FROM not_at_home_addresses a
+      JOIN sessions s ON s.id = a.session_id
+      JOIN territory_maps m ON m.congregation_id = s.congregation_id AND m.map_number = s.map_number
+      WHERE a.session_id = ${sessionId} AND rv.map_id = m.id AND rv.status = 'open'
+        AND rv.last_session_id IS DISTINCT FROM ${sessionId}
+        AND rv.address_key = a.address_key
+    `;
+    await sql`
+      INSERT INTO return_visits (map_id, block_number, unit_number, house_number, street_name, suburb, address_key, last_session_id)
+      SELECT DISTINCT ON (a.address_key)
+             m.id, a.block_number, a.unit_number, a.house_number, a.street_name, a.suburb, a.address_key, ${sessionId}::uuid
+      FROM not_at_home_addresses a
+      JOIN sessions s ON s.id = a.session_id
+      JOIN territory_maps m ON m.congregation_id = s.congregation_id AND m.map_number = s.map_number
+      WHERE a.session_id = ${sessionId}
+        AND NOT EXISTS (
+          SELECT 1 FROM return_visits rv
+          WHERE rv.map_id = m.id AND rv.status = 'open' AND rv.address_key = a.address_key
+        )
+    `;
+  } catch (e) {
+    console.error('Return-visit feed failed:', e);
+  }
+}
+
+// Open entries for a map, plus anything already resolved during this session
+// so the checklist can show what was done.
+export async function listReturnVisits(mapId: string, sessionId: string) {
+  await ensureReturnVisits();
+  return sql`
+    SELECT id, block_number, unit_number, house_number, street_name, suburb, status, attempts,
+           first_seen_at, last_seen_at, (last_session_id = ${sessionId}) AS checked
+    FROM return_visits
+    WHERE map_id = ${mapId} AND (status = 'open' OR last_session_id = ${sessionId})
+    ORDER BY block_number, address_key
+  `;
+}
+
+export async function recordReturnVisitOutcome(id: string, mapId: string, sessionId: string, outcome: ReturnVisitOutcome) {
+  await ensureReturnVisits();
+  const rows = outcome === 'not_home'
+    ? await sql`
+        UPDATE return_visits SET
+          attempts = attempts + CASE WHEN last_session_id IS DISTINCT FROM ${sessionId} THEN 1 ELSE 0 END,
+          status = 'open', resolved_at = NULL, last_session_id = ${sessionId}, last_seen_at = NOW()
+        WHERE id = ${id} AND map_id = ${mapId}
+        RETURNING id, block_number, unit_number, house_number, street_name, suburb, status, attempts, first_seen_at, last_seen_at, true AS checked
+      `
+    : await sql`
+        UPDATE return_visits SET
+          status = ${outcome === 'contacted' ? 'contacted' : 'dropped'}, resolved_at = NOW(), last_session_id = ${sessionId}
+        WHERE id = ${id} AND map_id = ${mapId}
+        RETURNING id, block_number, unit_number, house_number, street_name, suburb, status, attempts, first_seen_at, last_seen_at, true AS checked
+      `;
+  return rows[0] || null;
+}
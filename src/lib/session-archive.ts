@@ -0,0 +1,61 @@
+import sql from './db';
+import { ensureReturnVisits, feedReturnVisits } from './return-visits';
+
+// Ended sessions stay in the database as a per-congregation archive. Their
+// addresses are kept for the congregation's retention period and then purged
+// by the expiry cron (the session row itself is kept for the history list).
+// Open return visits have their own, longer retention: a territory may not be
+// worked again for months, and they exist to be carried to that next session.
+export const DEFAULT_RETENTION_DAYS = 30;
+export const MAX_RETENTION_DAYS = 365;
+export const MAX_RETURN_VISIT_RETENTION_DAYS = 730;
+
+let ensured: Promise<unknown> | null = null;
+export function ensureSessionArchive() {
+  if (!ensured) {
+    ensured = (async () => {
+      await sql`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ended_at TIMESTAMPTZ`;
+      await sql`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS purged_at TIMESTAMPTZ`;
+      await sql`ALTER TABLE congregations ADD COLUMN IF NOT EXISTS session_retention_days INTEGER NOT NULL DEFAULT 30`;
+      await sql`ALTER TABLE congregations ADD COLUMN IF NOT EXISTS return_visit_retention_days INTEGER NOT NULL DEFAULT 365`;
+    })().catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
+
+export async function endSession(sessionId: string) {
+  await ensureSessionArchive();
+  await sql`UPDATE sessions SET is_active = false, ended_at = NOW() WHERE id = ${sessionId}`;
+  // Unanswered houses become the next session's return visits on this map
+  await feedReturnVisits(sessionId);
+}
+
+// Deletes the addresses of ended sessions older than their congregation's
+// retention period, return visits resolved for as long, and open return
+// visits not seen within return_visit_retention_days. Returns how many
+// sessions were purged.
+export async function purgeExpiredArchives(): Promise<number> {
+  await ensureSessionArchive();
+  const purged = await sql`
+    UPDATE sessions s SET purged_at = NOW()
+    FROM congregations c
+    WHERE c.id = s.congregation_id AND s.is_active = false AND s.purged_at IS NULL
+      AND COALESCE(s.ended_at, s.expires_at) < NOW() - make_interval(days => c.session_retention_days)
+    RETURNING s.id
+  `;
+  if (purged.length) {
+    const ids = purged.map((r) => r.id as string);
+    await sql`DELETE FROM not_at_home_addresses WHERE session_id = ANY(${ids}::uuid[])`;
+  }
+  await ensureReturnVisits();
+  await sql`
+    DELETE FROM return_visits rv
+    USING territory_maps m, congregations c
+    WHERE m.id = rv.map_id AND c.id = m.congregation_id
+      AND CASE WHEN rv.status = 'open'
+        THEN rv.last_seen_at < NOW() - make_interval(days => c.return_visit_retention_days)
+        ELSE COALESCE(rv.resolved_at, rv.last_seen_at) < NOW() - make_interval(days => c.session_retention_days)
+      END
+  `;
+  return purged.length;
+}
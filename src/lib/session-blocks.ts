@@ -0,0 +1,111 @@
+import sql from './db';
+
+// Per-session block progress. A block with no row is untouched; publishers
+// mark a block started (claiming it) and then finished. The overseer can also
+// assign blocks to a named publisher or pair ("Anna & Ben").
+export type BlockStatus = 'started' | 'finished';
+
+export type BlockSummary = { completed: number[]; started: number[]; untouched: number[] };
+
+let ensured: Promise<unknown> | null = null;
+export function ensureSessionBlocks() {
+  if (!ensured) {
+    ensured = (async () => {
+      await sql`
+        CREATE TABLE IF NOT EXISTS session_blocks (
+          session_id   UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+          block_number INTEGER NOT NULL,
+          status       TEXT NOT NULL,
+          claimed_by   TEXT,
+          started_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          finished_at  TIMESTAMPTZ,
+          PRIMARY KEY (session_id, block_number)
+        )
+      `;
+      await sql`
+        CREATE TABLE IF NOT EXISTS session_block_assignments (
+          session_id   UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+          block_number INTEGER NOT NULL,
+          assignee     TEXT NOT NULL,
+          assigned_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (session_id, block_number)
+        )
+      `;
+    })().catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
+
+export async function listSessionBlocks(sessionId: string) {
+  await ensureSessionBlocks();
+  return sql`
+    SELECT block_number, status, claimed_by, started_at, finished_at
+    FROM session_blocks WHERE session_id = ${sessionId} ORDER BY block_number
+  `;
+}
+
+// Sets (or with `null`, clears) a block's status. Returns the new row, or the
+// cleared block number with status null.
+export async function setBlockStatus(sessionId: string, blockNumber: number, status: BlockStatus | null, claimedBy: string | null) {
+  await ensureSessionBlocks();
+  if (!status) {
+    await sql`DELETE FROM session_blocks WHERE session_id = ${sessionId} AND block_number = ${blockNumber}`;
+    return { block_number: blockNumber, status: null, claimed_by: null, started_at: null, finished_at: null };
+  }
+  const rows = await sql`
+    INSERT INTO session_blocks (session_id, block_number, status, claimed_by, finished_at)
+    VALUES (${sessionId}, ${blockNumber}, ${status}, ${claimedBy}, ${status === 'finished' ? new Date().toISOString() : null})
+    ON CONFLICT (session_id, block_number) DO UPDATE SET
+      status = EXCLUDED.status,
+      claimed_by = COALESCE(EXCLUDED.claimed_by, session_blocks.claimed_by),
+      finished_at = EXCLUDED.finished_at
+    RETURNING block_number, status, claimed_by, started_at, finished_at
+  `;
+  return rows[0];
+}
+
+export async function listBlockAssignments(sessionId: string) {
+  await ensureSessionBlocks();
+  return sql`
+    SELECT block_number, assignee FROM session_block_assignments
+    WHERE session_id = ${sessionId} ORDER BY assignee, block_number
+  `;
+}
+
+// Assigns blocks to one publisher/pair, replacing any earlier assignee of those blocks
+export async function assignBlocks(sessionId: string, assignee: string, blocks: number[]) {
+  await ensureSessionBlocks();
+  for (const block of blocks) {
+    await sql`
+      INSERT INTO session_block_assignments (session_id, block_number, assignee)
+      VALUES (${sessionId}, ${block}, ${assignee})
+      ON CONFLICT (session_id, block_number) DO UPDATE SET assignee = EXCLUDED.assignee, assigned_at = NOW()
+    `;
+  }
+}
+
+export async function unassignBlocks(sessionId: string, blocks: number[]) {
+  await ensureSessionBlocks();
+  await sql`DELETE FROM session_block_assignments WHERE session_id = ${sessionId} AND block_number = ANY(${blocks}::int[])`;
+}
+
+export async function blockSummary(sessionId: string, blockCount: number): Promise<BlockSummary> {
+  const rows = await listSessionBlocks(sessionId);
+  const status = new Map(rows.map((r) => [Number(r.block_number), r.status as BlockStatus]));
+  const summary: BlockSummary = { completed: [], started: [], untouched: [] };
+  for (let b = 1; b <= blockCount; b++) {
+    const s = status.get(b);
+    (s === 'finished' ? summary.completed : s === 'started' ? summary.started : summary.untouched).push(b);
+  }
+  return summary;
+}
+
+// Block count of the session's map (sessions store the map number only)
+export async function sessionBlockCount(sessionId: string): Promise<number> {
+  const rows = await sql`
+    SELECT m.block_count FROM sessions s
+    JOIN territory_maps m ON m.congregation_id = s.congregation_id AND m.map_number = s.map_number
+    WHERE s.id = ${sessionId} LIMIT 1
+  `;
+  return rows.length ? Number(rows[0].block_count) : 0;
+}
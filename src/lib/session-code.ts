@@ -0,0 +1,21 @@
+// Session code format, shared by the API (generation) and the join screens
+// (input length / normalisation). Set NEXT_PUBLIC_SESSION_CODE_LENGTH and
+// NEXT_PUBLIC_SESSION_CODE_ALPHABET to change it; both sides read the same vars.
+export const SESSION_CODE_LENGTH = clampLength(Number(process.env.NEXT_PUBLIC_SESSION_CODE_LENGTH) || 6);
+export const SESSION_CODE_ALPHABET = process.env.NEXT_PUBLIC_SESSION_CODE_ALPHABET || '0123456789';
+
+// sessions.code is VARCHAR(16)
+export const MAX_SESSION_CODE_LENGTH = 16;
+
+function clampLength(n: number) {
+  return Math.min(Math.max(Math.floor(n), 4), MAX_SESSION_CODE_LENGTH);
+}
+
+export const SESSION_CODE_NUMERIC = /^[0-9]+$/.test(SESSION_CODE_ALPHABET);
+const CASE_INSENSITIVE = SESSION_CODE_ALPHABET === SESSION_CODE_ALPHABET.toUpperCase();
+
+// What a person typed → the stored code (drops spaces/dashes, fixes case)
+export function normalizeSessionCode(input: string): string {
+  const code = input.replace(/[\s-]/g, '');
+  return CASE_INSENSITIVE ? code.toUpperCase() : code;
+}
@@ -0,0 +1,53 @@
+import { toCsv } from './csv';
+
+// Formats a session's not-at-home addresses for sharing — used when a session
+// ends and again when an admin re-shares or re-exports it from the archive.
+
+export type ResultBlocks = { completed: number[]; started: number[]; untouched: number[] };
+
+export type ResultAddress = {
+  block_number: number; unit_number?: string | null; house_number: string; street_name: string; suburb?: string | null; recorded_at?: string;
+};
+
+const fmt = (a: ResultAddress) => [a.unit_number ? `Unit ${a.unit_number}/` : '', a.house_number, a.street_name, a.suburb].filter(Boolean).join(' ');
+
+// House numbers may have a letter suffix (e.g. 42A) — sort/group by the leading digits
+const houseNum = (a: ResultAddress) => parseInt(a.house_number, 10) || 0;
+const byHouse = (a: ResultAddress, b: ResultAddress) => houseNum(a) - houseNum(b) || a.house_number.localeCompare(b.house_number);
+
+export function formatBlockSummary(blocks: ResultBlocks): string {
+  const list = (b: number[]) => b.length ? b.join(', ') : 'None';
+  return `Blocks completed: ${list(blocks.completed)}\nStarted, not finished: ${list(blocks.started)}\nUntouched: ${list(blocks.untouched)}`;
+}
+
+export function formatResultsText(code: string, mapNumber: number | undefined, addrs: ResultAddress[], blocks?: ResultBlocks): string {
+  const byBlock: Record<number, ResultAddress[]> = {};
+  for (const a of addrs) {
+    if (!byBlock[a.block_number]) byBlock[a.block_number] = [];
+    byBlock[a.block_number].push(a);
+  }
+  const lines = Object.entries(byBlock).sort(([a], [b]) => Number(a) - Number(b)).map(([block, arr]) => {
+    const evens = arr.filter(a => houseNum(a) % 2 === 0).sort(byHouse);
+    const odds  = arr.filter(a => houseNum(a) % 2 !== 0).sort(byHouse);
+    const evenLines = evens.length ? 'Even:\n' + evens.map(a => `  • ${fmt(a)}`).join('\n') : 'Even: None';
+    const oddLines  = odds.length  ? 'Odd:\n'  + odds.map(a  => `  • ${fmt(a)}`).join('\n') : 'Odd: None';
+    return `BLOCK ${block}:\n${evenLines}\n${oddLines}`;
+  }).join('\n\n');
+  const header = `Not At Home — Session ${code} | Map ${mapNumber}`;
+  return `${header}\n\n${blocks ? `${formatBlockSummary(blocks)}\n\n` : ''}${lines || 'No addresses recorded.'}`;
+}
+
+// Shares via the native share sheet, falling back to the clipboard
+export function shareResults(code: string, mapNumber: number | undefined, addrs: ResultAddress[], blocks?: ResultBlocks) {
+  const text = formatResultsText(code, mapNumber, addrs, blocks);
+  if (navigator.share) navigator.share({ title: 'Not At Home Results', text });
+  else navigator.clipboard.writeText(text).then(() => alert('Copied to clipboard!'));
+}
+
+export function resultsCsv(addrs: ResultAddress[]): string {
+  const header = ['Block', 'Unit', 'House', 'Street', 'Suburb', 'Recorded'];
+  const rows = [...addrs]
+    .sort((a, b) => a.block_number - b.block_number || a.street_name.localeCompare(b.street_name) || byHouse(a, b))
+    .map(a => [a.block_number, a.unit_number, a.house_number, a.street_name, a.suburb, a.recorded_at]);
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,174 @@
+import sharp from 'sharp';
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import sql from './db';
+import { backfillAddressKeys } from './address-keys';
+
+// Printable territory cards: one A5 page per map with its number and name,
+// block count, the map image and the approved Do Not Call list by block.
+// Long DNC lists continue on extra pages for the same map.
+
+export type CardDnc = { block_number: number | null; address: string; last_visit: string | null };
+export type CardData = {
+  map_number: number; name: string | null; block_count: number; image_url: string | null; dnc: CardDnc[];
+};
+
+const PAGE: [number, number] = [420, 595]; // A5 portrait, points
+const MARGIN = 28;
+const IMAGE_MAX_HEIGHT = 250;
+const GREY = rgb(0.42, 0.45, 0.5);
+const IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+const IMAGE_TIMEOUT_MS = 10000;
+
+// Most maps one request renders, to stay inside the function time limit
+export const MAX_CARDS = 100;
+
+// Maps in map-number order, optionally only `mapIds`
+export async function loadCardData(congregationId: string, mapIds?: string[]): Promise<CardData[]> {
+  const maps = mapIds
+    ? await sql`
+        SELECT id, map_number, name, block_count, image_url FROM territory_maps
+        WHERE congregation_id = ${congregationId} AND id = ANY(${mapIds}) ORDER BY map_number
+      `
+    : await sql`
+        SELECT id, map_number, name, block_count, image_url FROM territory_maps
+        WHERE congregation_id = ${congregationId} ORDER BY map_number
+      `;
+  if (!maps.length) return [];
+  await backfillAddressKeys();
+  const dnc = await sql`
+    SELECT map_id, block_number, address, last_visit FROM do_not_call
+    WHERE map_id = ANY(${maps.map((m) => m.id)}) AND COALESCE(status, 'approved') = 'approved'
+    ORDER BY block_number NULLS LAST, address_key
+  `;
+  return maps.map((m) => ({
+    map_number: m.map_number, name: m.name, block_count: m.block_count, image_url: m.image_url,
+    dnc: dnc.filter((d) => d.map_id === m.id) as CardDnc[],
+  }));
+}
+
+// Map images are only fetched from the app's own image storage (see
+// maps/[id]/image.ts) — image_url is admin-supplied, and fetching anything
+// else server-side would let it reach internal addresses
+function isStoredImage(url: string) {
+  try {
+    const u = new URL(url);
+    return u.protocol === 'https:' && !!process.env.R2_PUBLIC_URL && u.origin === new URL(process.env.R2_PUBLIC_URL).origin;
+  } catch {
+    return false;
+  }
+}
+
+// Response body, or null once it passes `limit` bytes
+async function readLimited(res: Response, limit: number): Promise<Buffer | null> {
+  if (Number(res.headers.get('content-length')) > limit) return null;
+  if (!res.body) return null;
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = res.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > limit) { await reader.cancel(); return null; }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Map image as a JPEG no wider than the page needs (null if unavailable)
+async function cardImage(url: string | null): Promise<Buffer | null> {
+  if (!url || !isStoredImage(url)) return null;
+  try {
+    const res = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+    if (!res.ok) return null;
+    const data = await readLimited(res, IMAGE_MAX_BYTES);
+    if (!data) return null;
+    return await sharp(data, { limitInputPixels: 50_000_000 })
+      .rotate()
+      .resize({ width: 1000, height: 1000, fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  } catch (e) {
+    console.error('Territory card image failed:', e);
+    return null;
+  }
+}
+
+// The standard PDF fonts only cover WinAnsi; swap anything else for '?'
+function winAnsi(s: string) {
+  return s.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/[^\x20-\x7e\xa0-\xff–—•…]/g, '?');
+}
+
+function fit(text: string, font: PDFFont, size: number, width: number) {
+  let t = winAnsi(text);
+  if (font.widthOfTextAtSize(t, size) <= width) return t;
+  while (t.length > 1 && font.widthOfTextAtSize(`${t}…`, size) > width) t = t.slice(0, -1);
+  return `${t}…`;
+}
+
+export async function renderTerritoryCards(cards: CardData[], congregation: string): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${congregation} territory cards`);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const width = PAGE[0] - MARGIN * 2;
+
+  for (const card of cards) {
+    let page: PDFPage = pdf.addPage(PAGE);
+    let y = PAGE[1] - MARGIN;
+    const line = (text: string, size: number, font = regular, colour = rgb(0, 0, 0), x = MARGIN, w = width) => {
+      page.drawText(fit(text, font, size, w), { x, y: y - size, size, font, color: colour });
+    };
+
+    line(winAnsi(congregation).toUpperCase(), 8, bold, GREY);
+    y -= 14;
+    line(`Territory Map ${card.map_number}`, 20, bold);
+    y -= 26;
+    if (card.name) { line(card.name, 13); y -= 18; }
+    line(`${card.block_count} block${card.block_count === 1 ? '' : 's'}`, 10, regular, GREY);
+    y -= 20;
+
+    const jpeg = await cardImage(card.image_url);
+    if (jpeg) {
+      const img = await pdf.embedJpg(jpeg);
+      const scale = Math.min(width / img.width, IMAGE_MAX_HEIGHT / img.height);
+      const w = img.width * scale, h = img.height * scale;
+      page.drawImage(img, { x: MARGIN + (width - w) / 2, y: y - h, width: w, height: h });
+      y -= h + 16;
+    } else {
+      page.drawRectangle({ x: MARGIN, y: y - 60, width, height: 60, borderColor: GREY, borderWidth: 0.5 });
+      page.drawText('No map image', { x: MARGIN + width / 2 - 30, y: y - 34, size: 9, font: regular, color: GREY });
+      y -= 76;
+    }
+
+    // Do Not Call list, grouped by block
+    line('Do Not Call', 12, bold);
+    y -= 18;
+    if (!card.dnc.length) {
+      line('None', 10, regular, GREY);
+      continue;
+    }
+    const groups = new Map<string, CardDnc[]>();
+    for (const d of card.dnc) {
+      const key = d.block_number != null ? `Block ${d.block_number}` : 'No block';
+      groups.set(key, [...(groups.get(key) || []), d]);
+    }
+    for (const [block, rows] of Array.from(groups.entries())) {
+      for (let i = 0; i < rows.length; i++) {
+        if (y < MARGIN + 28) {
+          page = pdf.addPage(PAGE);
+          y = PAGE[1] - MARGIN;
+          line(`Territory Map ${card.map_number} — Do Not Call (continued)`, 11, bold);
+          y -= 20;
+        }
+        if (i === 0) { line(block, 10, bold); y -= 14; }
+        line(rows[i].address, 9, regular, rgb(0, 0, 0), MARGIN + 10, width * 0.65);
+        if (rows[i].last_visit) line(rows[i].last_visit!, 9, regular, GREY, MARGIN + 10 + width * 0.67, width * 0.33 - 10);
+        y -= 13;
+      }
+      y -= 4;
+    }
+  }
+  return pdf.save();
+}
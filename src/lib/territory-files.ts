@@ -0,0 +1,199 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { GeometryError, MapGeometry, PolygonGeometry, Position, parseMapGeoJson, toFeatureCollection } from './map-geometry';
+
+// Territory files exchanged with mapping tools and neighbouring congregations.
+// Both formats carry many maps: each polygon names its map number and, for
+// block outlines, its block number — as properties/ExtendedData
+// (map_number, block_number) or in names such as "Map 12" / "Block 3". In
+// KML the map can also come from the enclosing folder's name.
+
+type Feature = { type: 'Feature'; properties: Record<string, unknown>; geometry: unknown };
+
+export type TerritoryFileMap = {
+  map_number: number;
+  name: string | null;
+  geometry: MapGeometry;
+  block_count: number;
+};
+
+export type ExportedMap = { map_number: number; name: string | null } & MapGeometry;
+
+const MAP_NAME = /^\s*(?:map|territory|terr\.?)\s*#?\s*(\d+)\s*(?:[-–—:]\s*(.*))?$/i;
+const BLOCK_NAME = /^\s*block\s*#?\s*(\d+)\s*$/i;
+
+function intProp(props: Record<string, unknown>, keys: string[]) {
+  for (const key of keys) {
+    const n = Number(props[key]);
+    if (props[key] != null && props[key] !== '' && Number.isInteger(n) && n > 0) return n;
+  }
+  return null;
+}
+
+// ---- KML → GeoJSON features ----
+
+function text(el: Element | null | undefined) {
+  return el?.textContent?.trim() || '';
+}
+
+function children(el: Element, tag: string): Element[] {
+  return Array.from(el.childNodes as unknown as ArrayLike<Node>)
+    .filter((n): n is Element => n.nodeType === 1 && ((n as Element).localName || (n as Element).nodeName) === tag);
+}
+
+function descendants(el: Element, tag: string): Element[] {
+  return Array.from(el.getElementsByTagNameNS('*', tag) as unknown as ArrayLike<Element>);
+}
+
+function ring(el: Element | undefined): Position[] {
+  const coords = descendants(el!, 'coordinates')[0];
+  return text(coords).split(/\s+/).filter(Boolean).map((t) => {
+    const [lon, lat] = t.split(',').map(Number);
+    return [lon, lat] as Position;
+  });
+}
+
+function kmlPolygon(el: Element): Position[][] {
+  const outer = descendants(el, 'outerBoundaryIs')[0];
+  if (!outer) throw new GeometryError('KML polygon without an outer boundary');
+  return [ring(outer), ...descendants(el, 'innerBoundaryIs').map(ring)];
+}
+
+function kmlGeometry(placemark: Element): PolygonGeometry | null {
+  const polygons = descendants(placemark, 'Polygon').map(kmlPolygon);
+  if (!polygons.length) return null;
+  return polygons.length === 1 ? { type: 'Polygon', coordinates: polygons[0] } : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+export function kmlToFeatures(kml: string): Feature[] {
+  const errors: string[] = [];
+  const doc = new DOMParser({ errorHandler: { error: (m: string) => errors.push(m), fatalError: (m: string) => errors.push(m) } })
+    .parseFromString(kml, 'text/xml');
+  if (errors.length || !doc.documentElement) throw new GeometryError('File is not valid KML');
+
+  const features: Feature[] = [];
+  for (const pm of descendants(doc.documentElement as unknown as Element, 'Placemark')) {
+    const geometry = kmlGeometry(pm);
+    if (!geometry) continue; // points, lines and labels are ignored
+    const properties: Record<string, unknown> = { name: text(children(pm, 'name')[0]) };
+    for (const d of descendants(pm, 'Data')) properties[d.getAttribute('name') || ''] = text(children(d, 'value')[0]);
+    for (const d of descendants(pm, 'SimpleData')) properties[d.getAttribute('name') || ''] = text(d);
+    // Nearest folder names, innermost first
+    const folders: string[] = [];
+    for (let p = pm.parentNode as Element | null; p && p.nodeType === 1; p = p.parentNode as Element | null) {
+      if ((p.localName || p.nodeName) === 'Folder') folders.push(text(children(p, 'name')[0]));
+    }
+    properties.folders = folders;
+    features.push({ type: 'Feature', properties, geometry });
+  }
+  return features;
+}
+
+// ---- features → maps ----
+
+export function readTerritoryFile(content: string, filename = ''): Feature[] {
+  const trimmed = content.trim();
+  if (/\.kml$/i.test(filename) || trimmed.startsWith('<')) return kmlToFeatures(trimmed);
+  let doc: { type?: string; features?: unknown };
+  try { doc = JSON.parse(trimmed); } catch { throw new GeometryError('File is not valid GeoJSON or KML'); }
+  if (doc?.type !== 'FeatureCollection' || !Array.isArray(doc.features)) throw new GeometryError('Expected a GeoJSON FeatureCollection');
+  return (doc.features as Feature[]).map((f) => ({ type: 'Feature', properties: f?.properties || {}, geometry: f?.geometry }));
+}
+
+// Groups polygons by map and validates each map's outlines. Maps that fail
+// validation are reported in `errors` rather than failing the whole file.
+export function groupTerritoryMaps(features: Feature[]) {
+  const groups = new Map<number, { name: string | null; boundary: Feature[]; blocks: Feature[] }>();
+  let unassigned = 0;
+  for (const f of features) {
+    const props = f.properties;
+    const name = typeof props.name === 'string' ? props.name : '';
+    const folders = Array.isArray(props.folders) ? props.folders as string[] : [];
+    const mapFromName = name.match(MAP_NAME);
+    const mapFromFolder = folders.map((n) => n.match(MAP_NAME)).find(Boolean);
+
+    const mapNumber = intProp(props, ['map_number', 'map', 'territory', 'territory_number'])
+      ?? (mapFromName ? Number(mapFromName[1]) : null)
+      ?? (mapFromFolder ? Number(mapFromFolder[1]) : null);
+    if (mapNumber == null) { unassigned++; continue; }
+
+    let block = intProp(props, ['block_number', 'block']);
+    if (block == null && !mapFromName) {
+      const m = name.match(BLOCK_NAME) || name.match(/^\s*(\d+)\s*$/);
+      if (m) block = Number(m[1]);
+    }
+
+    const group = groups.get(mapNumber) || { name: null, boundary: [], blocks: [] };
+    const mapName = typeof props.map_name === 'string' && props.map_name.trim()
+      ? props.map_name.trim()
+      : (mapFromName?.[2] || (!mapFromName && mapFromFolder?.[2]) || '').trim();
+    if (mapName && !group.name) group.name = mapName;
+    if (block == null) group.boundary.push({ ...f, properties: { boundary: true } });
+    else group.blocks.push({ ...f, properties: { block_number: block } });
+    groups.set(mapNumber, group);
+  }
+
+  const maps: TerritoryFileMap[] = [];
+  const errors: string[] = [];
+  for (const [mapNumber, g] of Array.from(groups.entries()).sort(([a], [b]) => a - b)) {
+    const blockCount = Math.max(1, ...g.blocks.map((b) => Number(b.properties.block_number)));
+    try {
+      if (g.boundary.length > 1) throw new GeometryError('more than one boundary polygon');
+      const geometry = parseMapGeoJson({ type: 'FeatureCollection', features: [...g.boundary, ...g.blocks] }, blockCount);
+      maps.push({ map_number: mapNumber, name: g.name, geometry, block_count: blockCount });
+    } catch (e) {
+      if (!(e instanceof GeometryError)) throw e;
+      errors.push(`Map ${mapNumber}: ${e.message}`);
+    }
+  }
+  if (unassigned) errors.push(`${unassigned} polygon${unassigned === 1 ? '' : 's'} had no map number and ${unassigned === 1 ? 'was' : 'were'} skipped`);
+  return { maps, errors };
+}
+
+// ---- export ----
+
+export function territoriesToGeoJson(maps: ExportedMap[]) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: maps.flatMap((m) => toFeatureCollection(m).features.map((f) => ({
+      ...f,
+      properties: { map_number: m.map_number, ...(m.name ? { map_name: m.name } : {}), ...f.properties },
+    }))),
+  };
+}
+
+function escapeXml(s: string) {
+  return s.replace(/[&<>"']/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[c]!));
+}
+
+function kmlPolygons(g: PolygonGeometry) {
+  const polys = g.type === 'Polygon' ? [g.coordinates] : g.coordinates;
+  const ringXml = (r: Position[]) => `<LinearRing><coordinates>${r.map((p) => p.join(',')).join(' ')}</coordinates></LinearRing>`;
+  const polyXml = (rings: Position[][]) => `<Polygon><outerBoundaryIs>${ringXml(rings[0])}</outerBoundaryIs>${
+    rings.slice(1).map((r) => `<innerBoundaryIs>${ringXml(r)}</innerBoundaryIs>`).join('')}</Polygon>`;
+  return polys.length === 1 ? polyXml(polys[0]) : `<MultiGeometry>${polys.map(polyXml).join('')}</MultiGeometry>`;
+}
+
+function placemark(name: string, data: Record<string, string | number>, g: PolygonGeometry) {
+  const ext = Object.entries(data).map(([k, v]) => `<Data name="${k}"><value>${escapeXml(String(v))}</value></Data>`).join('');
+  return `      <Placemark><name>${escapeXml(name)}</name><ExtendedData>${ext}</ExtendedData>${kmlPolygons(g)}</Placemark>`;
+}
+
+export function territoriesToKml(maps: ExportedMap[], documentName: string) {
+  const folders = maps.map((m) => {
+    const title = `Map ${m.map_number}${m.name ? ` — ${m.name}` : ''}`;
+    const marks = [
+      ...(m.boundary ? [placemark(`Map ${m.map_number}`, { map_number: m.map_number, ...(m.name ? { map_name: m.name } : {}) }, m.boundary)] : []),
+      ...(m.block_shapes?.features || []).map((b) =>
+        placemark(`Block ${b.properties.block_number}`, { map_number: m.map_number, block_number: b.properties.block_number }, b.geometry)),
+    ];
+    return `    <Folder><name>${escapeXml(title)}</name>\n${marks.join('\n')}\n    </Folder>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(documentName)}</name>
+${folders.join('\n')}
+  </Document>
+</kml>
+`;
+}
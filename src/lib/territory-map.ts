@@ -0,0 +1,94 @@
+import type * as Leaflet from 'leaflet';
+import type { MapGeometry } from './map-geometry';
+
+// Interactive territory map for the session page (Leaflet + OpenStreetMap
+// tiles). Draws the boundary and block outlines, the publisher's position and
+// recorded pins; tapping a block reports its number. Leaflet touches `window`,
+// so it is loaded only when a map is created in the browser.
+
+export type BlockLook = { status: 'started' | 'finished' | null; selected: boolean };
+export type MapPin = { kind: 'address' | 'dnc'; latitude: number; longitude: number; label: string };
+
+export interface TerritoryMapView {
+  setBlockLooks(looks: Record<number, BlockLook>): void;
+  setPins(pins: MapPin[]): void;
+  setPosition(fix: { latitude: number; longitude: number; accuracy: number } | null): void;
+  destroy(): void;
+}
+
+const BLOCK_COLOURS = { untouched: '#2563eb', started: '#d97706', finished: '#16a34a' };
+const PIN_COLOURS = { address: '#2563eb', dnc: '#dc2626' };
+
+export async function createTerritoryMap(
+  el: HTMLElement,
+  geometry: MapGeometry,
+  onSelectBlock: (block: number) => void,
+): Promise<TerritoryMapView> {
+  const L = (await import('leaflet')).default;
+  const map = L.map(el, { zoomControl: true, attributionControl: true });
+  L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+    maxZoom: 19,
+    attribution: '&copy; OpenStreetMap contributors',
+  }).addTo(map);
+
+  const outlines = L.featureGroup().addTo(map);
+  if (geometry.boundary) {
+    L.geoJSON(geometry.boundary, {
+      style: { color: '#111827', weight: 3, dashArray: '6 6', fill: false },
+      interactive: false,
+    }).addTo(outlines);
+  }
+
+  const blockLayers = new Map<number, Leaflet.Path[]>();
+  if (geometry.block_shapes) {
+    L.geoJSON(geometry.block_shapes, {
+      style: { color: BLOCK_COLOURS.untouched, weight: 2, fillOpacity: 0.08 },
+      onEachFeature: (feature, layer) => {
+        const n = Number(feature.properties?.block_number);
+        blockLayers.set(n, [...(blockLayers.get(n) || []), layer as Leaflet.Path]);
+        layer.bindTooltip(String(n), { permanent: true, direction: 'center', className: 'nah-block-label' });
+        layer.on('click', () => onSelectBlock(n));
+      },
+    }).addTo(outlines);
+  }
+  if (outlines.getLayers().length) map.fitBounds(outlines.getBounds(), { padding: [12, 12] });
+  else map.setView([0, 0], 2);
+
+  const pins = L.layerGroup().addTo(map);
+  const position = L.layerGroup().addTo(map);
+
+  return {
+    setBlockLooks(looks) {
+      blockLayers.forEach((layers, n) => {
+        const look = looks[n];
+        const colour = BLOCK_COLOURS[look?.status || 'untouched'];
+        for (const layer of layers) {
+          layer.setStyle({
+            color: colour,
+            weight: look?.selected ? 4 : 2,
+            fillColor: colour,
+            fillOpacity: look?.selected ? 0.3 : look?.status ? 0.18 : 0.08,
+          });
+          if (look?.selected) layer.bringToFront();
+        }
+      });
+    },
+    setPins(list) {
+      pins.clearLayers();
+      for (const p of list) {
+        L.circleMarker([p.latitude, p.longitude], {
+          radius: 6, color: '#fff', weight: 2, fillColor: PIN_COLOURS[p.kind], fillOpacity: 1,
+        }).bindPopup(p.kind === 'dnc' ? `Do Not Call: ${p.label}` : p.label).addTo(pins);
+      }
+    },
+    setPosition(fix) {
+      position.clearLayers();
+      if (!fix) return;
+      L.circle([fix.latitude, fix.longitude], { radius: fix.accuracy, color: '#2563eb', weight: 1, fillOpacity: 0.1, interactive: false }).addTo(position);
+      L.circleMarker([fix.latitude, fix.longitude], { radius: 7, color: '#fff', weight: 3, fillColor: '#2563eb', fillOpacity: 1, interactive: false }).addTo(position);
+    },
+    destroy() {
+      map.remove();
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import sql from './db';
+
+// Territory assignment register (S-13): each map is checked out to a
+// publisher or group and checked back in when the territory is completed.
+// At most one assignment per map is open at a time. Dates are returned as
+// YYYY-MM-DD strings.
+
+let ensured: Promise<unknown> | null = null;
+export function ensureTerritoryAssignments() {
+  if (!ensured) {
+    ensured = (async () => {
+      await sql`
+        CREATE TABLE IF NOT EXISTS territory_assignments (
+          id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+          map_id         UUID NOT NULL REFERENCES territory_maps(id) ON DELETE CASCADE,
+          assignee       TEXT NOT NULL,
+          checked_out_on DATE NOT NULL DEFAULT CURRENT_DATE,
+          checked_in_on  DATE,
+          notes          TEXT,
+          created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `;
+      await sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_territory_assignments_open
+        ON territory_assignments(map_id) WHERE checked_in_on IS NULL
+      `;
+    })().catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
+
+// Returns the map if it belongs to the congregation
+export async function findCongregationMap(mapId: string, congregationId: string) {
+  const rows = await sql`SELECT id, map_number, name FROM territory_maps WHERE id = ${mapId} AND congregation_id = ${congregationId} LIMIT 1`;
+  return rows[0] || null;
+}
+
+// One row per map: current holder (if checked out), last completion and last
+// session. A map counts as covered by whichever is later (last_covered_on):
+// maps are often worked in sessions without being formally checked in.
+// `months` keeps only maps not covered within that many months, least
+// recently covered first.
+export async function territoryOverview(congregationId: string, months?: number) {
+  await ensureTerritoryAssignments();
+  const rows = await sql`
+    SELECT m.id, m.map_number, m.name,
+           cur.id AS assignment_id, cur.assignee, cur.checked_out_on::text AS checked_out_on,
+           done.day::text AS last_completed_on, worked.started AS last_session_at,
+           GREATEST(done.day, worked.started::date)::text AS last_covered_on
+    FROM territory_maps m
+    LEFT JOIN territory_assignments cur ON cur.map_id = m.id AND cur.checked_in_on IS NULL
+    CROSS JOIN LATERAL (SELECT MAX(checked_in_on) AS day FROM territory_assignments WHERE map_id = m.id) done
+    CROSS JOIN LATERAL (
+      SELECT MAX(created_at) AS started FROM sessions WHERE congregation_id = m.congregation_id AND map_number = m.map_number
+    ) worked
+    WHERE m.congregation_id = ${congregationId}
+    ORDER BY m.map_number
+  `;
+  if (!months) return rows;
+  const cutoff = new Date();
+  cutoff.setMonth(cutoff.getMonth() - months);
+  return rows
+    .filter((r) => !r.last_covered_on || new Date(r.last_covered_on) < cutoff)
+    .sort((a, b) => (a.last_covered_on || '').localeCompare(b.last_covered_on || '') || a.map_number - b.map_number);
+}
+
+export async function assignmentHistory(congregationId: string, mapId?: string) {
+  await ensureTerritoryAssignments();
+  return sql`
+    SELECT a.id, a.map_id, m.map_number, m.name AS map_name, a.assignee,
+           a.checked_out_on::text AS checked_out_on, a.checked_in_on::text AS checked_in_on, a.notes
+    FROM territory_assignments a
+    JOIN territory_maps m ON m.id = a.map_id
+    WHERE m.congregation_id = ${congregationId} AND (${mapId ?? null}::uuid IS NULL OR a.map_id = ${mapId ?? null}::uuid)
+    ORDER BY m.map_number, a.checked_out_on DESC, a.created_at DESC
+  `;
+}
@@ -1,8 +1,17 @@
+import { useEffect } from 'react';
 import type { AppProps } from 'next/app';
 import Head from 'next/head';
+import 'leaflet/dist/leaflet.css';
 import '../styles/globals.css';
 
 function MyApp({ Component, pageProps }: AppProps) {
+  // Service worker caches the session page, map and DNC list for offline use
+  useEffect(() => {
+    if ('serviceWorker' in navigator && process.env.NODE_ENV === 'production') {
+      navigator.serviceWorker.register('/sw.js').catch(console.error);
+    }
+  }, []);
+
   return (
     <>
       <Head>
@@ -19,4 +28,4 @@ function MyApp({ Component, pageProps }: AppProps) {
   );
 }
 
-export default MyApp; 
\ No newline at end of file
+export default MyApp;
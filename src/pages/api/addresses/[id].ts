@@ -1,9 +1,15 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
+import { publishSessionEvent } from '../../../lib/events';
+import { requireParticipant, ParticipantPayload } from '../../../lib/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, participant: ParticipantPayload) {
   if (req.method !== 'DELETE') return res.status(405).end();
   const { id } = req.query as { id: string };
-  await sql`DELETE FROM not_at_home_addresses WHERE id = ${id}`;
+  // Only addresses recorded in the caller's own session can be removed
+  const rows = await sql`DELETE FROM not_at_home_addresses WHERE id = ${id} AND session_id = ${participant.sub} RETURNING session_id`;
+  if (!rows.length) return res.status(404).json({ error: 'Address not found in this session' });
+  await publishSessionEvent(rows[0].session_id, 'address_deleted', { id });
   return res.status(204).end();
 }
+export default requireParticipant(handler);
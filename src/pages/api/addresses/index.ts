@@ -1,101 +1,211 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
+import { publishSessionEvent } from '../../../lib/events';
+import { requireParticipant, ParticipantPayload } from '../../../lib/auth';
+import { checkGeofence, ensureGeofence } from '../../../lib/geofence';
+import { addressKey } from '../../../lib/address';
+import { backfillSessionAddressKeys } from '../../../lib/address-keys';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  if (req.method === 'GET') {
-    const { session_id } = req.query as { session_id: string };
-    if (!session_id) return res.status(400).json({ error: 'session_id required' });
-    const rows = await sql`
-      SELECT * FROM not_at_home_addresses WHERE session_id = ${session_id}
-      ORDER BY block_number, recorded_at
-    `;
-    return res.status(200).json(rows);
+  if (req.method === 'GET') return requireParticipant(listAddresses)(req, res);
+  if (req.method === 'POST') return requireParticipant(createAddress)(req, res);
+
+  return res.status(405).end();
+}
+
+// Only a participant of the session can read its addresses
+async function listAddresses(req: NextApiRequest, res: NextApiResponse, participant: ParticipantPayload) {
+  const { session_id } = req.query as { session_id: string };
+  if (!session_id) return res.status(400).json({ error: 'session_id required' });
+  if (session_id !== participant.sub) return res.status(403).json({ error: 'Forbidden' });
+  const rows = await sql`
+    SELECT * FROM not_at_home_addresses WHERE session_id = ${session_id}
+    ORDER BY block_number, recorded_at
+  `;
+  return res.status(200).json(rows);
+}
+
+// Coordinates from the device's GPS fix, or null when entered manually / invalid
+function parseLocation(body: Record<string, unknown>) {
+  const lat = Number(body.latitude);
+  const lon = Number(body.longitude);
+  const accuracy = Number(body.accuracy_m);
+  if (body.latitude == null || body.longitude == null || !Number.isFinite(lat) || !Number.isFinite(lon)
+    || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+    return { latitude: null, longitude: null, accuracy_m: null, location_source: 'manual' };
   }
+  return {
+    latitude: lat,
+    longitude: lon,
+    accuracy_m: body.accuracy_m != null && Number.isFinite(accuracy) && accuracy >= 0 ? accuracy : null,
+    location_source: 'gps',
+  };
+}
 
-  if (req.method === 'POST') {
-    const { session_id, block_number, unit_number, house_number, street_name, suburb, dnc, dnc_reason, dnc_submitted_by } = req.body;
-    if (!session_id || !block_number || !house_number || !street_name) {
-      return res.status(400).json({ error: 'Missing required fields' });
+// Records are always written to the session named in the participant token
+async function createAddress(req: NextApiRequest, res: NextApiResponse, participant: ParticipantPayload) {
+  const { block_number, unit_number, house_number, street_name, suburb, dnc, dnc_reason, dnc_submitted_by } = req.body;
+  const session_id = participant.sub;
+  if (req.body.session_id && req.body.session_id !== session_id) return res.status(403).json({ error: 'Forbidden' });
+  if (!block_number || !house_number || !street_name) {
+    return res.status(400).json({ error: 'Missing required fields' });
+  }
+  const session = await sql`
+    SELECT id, congregation_id, map_number FROM sessions
+    WHERE id = ${session_id} AND is_active = true AND expires_at > NOW() LIMIT 1
+  `;
+  if (!session.length) return res.status(404).json({ error: 'Session not found or expired' });
+
+  // A GPS fix outside the map's boundary usually means the wrong session —
+  // refuse it unless the publisher has confirmed (outside_ok)
+  const loc = parseLocation(req.body);
+  const outside = loc.latitude != null && loc.longitude != null
+    ? await checkGeofence(session[0].congregation_id, session[0].map_number, loc.latitude, loc.longitude)
+    : null;
+  if (outside && req.body.outside_ok !== true) {
+    return res.status(409).json({ error: `This address appears to be outside Map ${outside.map_number}`, outside });
+  }
+
+  // DNC flag: submit a REQUEST for the congregation admins to approve. It is
+  // NOT placed on the map until approved, and is not a "not at home" record.
+  if (dnc === true) {
+    if (!dnc_reason || !String(dnc_reason).trim() || !dnc_submitted_by || !String(dnc_submitted_by).trim()) {
+      return res.status(400).json({ error: 'A reason and your name are required for a Do Not Call request' });
     }
-    const session = await sql`
-      SELECT id, congregation_id, map_number FROM sessions
-      WHERE id = ${session_id} AND is_active = true AND expires_at > NOW() LIMIT 1
+    const addrText = `${unit_number ? `${unit_number}/` : ''}${house_number} ${street_name}`.trim();
+    const map = await sql`
+      SELECT id FROM territory_maps
+      WHERE congregation_id = ${session[0].congregation_id} AND map_number = ${session[0].map_number} LIMIT 1
     `;
-    if (!session.length) return res.status(404).json({ error: 'Session not found or expired' });
-
-    // DNC flag: submit a REQUEST for the congregation admins to approve. It is
-    // NOT placed on the map until approved, and is not a "not at home" record.
-    if (dnc === true) {
-      if (!dnc_reason || !String(dnc_reason).trim() || !dnc_submitted_by || !String(dnc_submitted_by).trim()) {
-        return res.status(400).json({ error: 'A reason and your name are required for a Do Not Call request' });
-      }
-      const addrText = `${unit_number ? `${unit_number}/` : ''}${house_number} ${street_name}`.trim();
-      const map = await sql`
-        SELECT id FROM territory_maps
-        WHERE congregation_id = ${session[0].congregation_id} AND map_number = ${session[0].map_number} LIMIT 1
-      `;
-      if (!map.length) return res.status(404).json({ error: 'Map not found' });
+    if (!map.length) return res.status(404).json({ error: 'Map not found' });
 
-      await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS block_number INTEGER`;
-      await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS last_visit TEXT`;
-      await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved'`;
-      await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS reason TEXT`;
-      await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS submitted_by TEXT`;
+    await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS block_number INTEGER`;
+    await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS last_visit TEXT`;
+    await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved'`;
+    await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS reason TEXT`;
+    await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS submitted_by TEXT`;
+    await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION`;
+    await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION`;
+    await backfillSessionAddressKeys(session_id);
 
-      const existing = await sql`
-        SELECT id, status FROM do_not_call WHERE map_id = ${map[0].id} AND LOWER(address) = LOWER(${addrText}) LIMIT 1
+    const key = addressKey({ unit_number, house_number, street_name });
+    const existing = await sql`
+      SELECT id, status FROM do_not_call WHERE map_id = ${map[0].id} AND address_key = ${key} LIMIT 1
+    `;
+    if (existing.length && existing[0].status === 'approved') {
+      return res.status(200).json({ ok: true, dnc: 'already_approved' });
+    }
+    const reason = String(dnc_reason).trim();
+    const submittedBy = String(dnc_submitted_by).trim();
+    if (existing.length) {
+      await sql`
+        UPDATE do_not_call
+        SET block_number = ${block_number}, reason = ${reason}, submitted_by = ${submittedBy},
+            latitude = COALESCE(${loc.latitude}, latitude), longitude = COALESCE(${loc.longitude}, longitude)
+        WHERE id = ${existing[0].id}
       `;
-      if (existing.length && existing[0].status === 'approved') {
-        return res.status(200).json({ ok: true, dnc: 'already_approved' });
-      }
-      const reason = String(dnc_reason).trim();
-      const submittedBy = String(dnc_submitted_by).trim();
-      if (existing.length) {
-        await sql`
-          UPDATE do_not_call
-          SET block_number = ${block_number}, reason = ${reason}, submitted_by = ${submittedBy}
-          WHERE id = ${existing[0].id}
-        `;
-      } else {
-        await sql`
-          INSERT INTO do_not_call (map_id, block_number, address, note, status, reason, submitted_by)
-          VALUES (${map[0].id}, ${block_number}, ${addrText}, 'DNC', 'pending', ${reason}, ${submittedBy})
-        `;
-      }
+    } else {
+      await sql`
+        INSERT INTO do_not_call (
+          map_id, block_number, address, unit_number, house_number, street_name, suburb, address_key,
+          note, status, reason, submitted_by, latitude, longitude
+        )
+        VALUES (
+          ${map[0].id}, ${block_number}, ${addrText}, ${unit_number || null}, ${house_number}, ${street_name}, ${suburb || null}, ${key},
+          'DNC', 'pending', ${reason}, ${submittedBy}, ${loc.latitude}, ${loc.longitude}
+        )
+      `;
+    }
 
-      // Notify the congregation's admins (best-effort — never block submission)
-      try {
-        const cong = await sql`SELECT name, notification_email FROM congregations WHERE id = ${session[0].congregation_id} LIMIT 1`;
-        const adminRows = await sql`SELECT email FROM congregation_admins WHERE congregation_id = ${session[0].congregation_id}`;
-        const recipients = Array.from(new Set(
-          [...adminRows.map((a) => a.email as string), cong[0]?.notification_email as string | undefined].filter(Boolean)
-        )) as string[];
-        if (recipients.length) {
-          const { sendDncRequestEmail } = await import('../../../lib/email');
-          await sendDncRequestEmail({
-            to: recipients,
-            congregationName: cong[0]?.name || 'your congregation',
-            address: addrText,
-            blockNumber: block_number,
-            mapNumber: session[0].map_number,
-            reason,
-            submittedBy,
-          });
-        }
-      } catch (e) {
-        console.error('DNC request email failed:', e);
+    // Notify the congregation's admins (best-effort — never block submission)
+    try {
+      const cong = await sql`SELECT name, notification_email FROM congregations WHERE id = ${session[0].congregation_id} LIMIT 1`;
+      const adminRows = await sql`SELECT email FROM congregation_admins WHERE congregation_id = ${session[0].congregation_id}`;
+      const recipients = Array.from(new Set(
+        [...adminRows.map((a) => a.email as string), cong[0]?.notification_email as string | undefined].filter(Boolean)
+      )) as string[];
+      if (recipients.length) {
+        const { sendDncRequestEmail } = await import('../../../lib/email');
+        await sendDncRequestEmail({
+          to: recipients,
+          congregationName: cong[0]?.name || 'your congregation',
+          address: addrText,
+          blockNumber: block_number,
+          mapNumber: session[0].map_number,
+          reason,
+          submittedBy,
+        });
       }
-
-      return res.status(existing.length ? 200 : 201).json({ ok: true, dnc: 'pending' });
+    } catch (e) {
+      console.error('DNC request email failed:', e);
     }
 
-    const rows = await sql`
-      INSERT INTO not_at_home_addresses (session_id, block_number, unit_number, house_number, street_name, suburb)
-      VALUES (${session_id}, ${block_number}, ${unit_number || null}, ${house_number}, ${street_name}, ${suburb || null})
-      RETURNING *
+    return res.status(existing.length ? 200 : 201).json({ ok: true, dnc: 'pending' });
+  }
+
+  // Double taps and retried/replayed requests must not create duplicates:
+  // honour the client's Idempotency-Key, and treat the same unit/house/street
+  // in the same block of this session as the same record (by address key,
+  // so "12 Smith St" and "12 Smith Street" count as the same house).
+  await sql`ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS client_key TEXT`;
+  await sql`ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION`;
+  await sql`ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION`;
+  await sql`ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS accuracy_m REAL`;
+  await sql`ALTER TABLE not_at_home_addresses ADD COLUMN IF NOT EXISTS location_source TEXT NOT NULL DEFAULT 'manual'`;
+  await ensureGeofence();
+  // Dedup and the DNC check below match on address_key
+  await backfillSessionAddressKeys(session_id);
+  await sql`
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_addresses_client_key
+    ON not_at_home_addresses(session_id, client_key) WHERE client_key IS NOT NULL
+  `;
+  const headerKey = req.headers['idempotency-key'];
+  const clientKey = (Array.isArray(headerKey) ? headerKey[0] : headerKey)?.trim().slice(0, 100) || null;
+  const unit = unit_number ? String(unit_number).trim() : '';
+  const key = addressKey({ unit_number: unit, house_number: String(house_number), street_name: String(street_name) });
+
+  // An approved Do Not Call address would be shared for a return visit —
+  // refuse it unless the publisher has explicitly overridden (dnc_ok)
+  if (req.body.dnc_ok !== true) {
+    await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved'`;
+    const listed = await sql`
+      SELECT d.id, d.address, d.last_visit FROM do_not_call d
+      JOIN territory_maps m ON m.id = d.map_id
+      WHERE m.congregation_id = ${session[0].congregation_id} AND m.map_number = ${session[0].map_number}
+        AND d.address_key = ${key} AND d.status = 'approved'
+      LIMIT 1
     `;
-    return res.status(201).json(rows[0]);
+    if (listed.length) {
+      const lastVisit = listed[0].last_visit ? ` — last visit ${listed[0].last_visit}` : '';
+      return res.status(409).json({ error: `This address is on the Do Not Call list${lastVisit}`, do_not_call: listed[0] });
+    }
   }
 
-  return res.status(405).end();
+  const rows = await sql`
+    INSERT INTO not_at_home_addresses (
+      session_id, block_number, unit_number, house_number, street_name, suburb, client_key,
+      latitude, longitude, accuracy_m, location_source, outside_boundary, address_key
+    )
+    SELECT ${session_id}, ${block_number}, ${unit || null}, ${house_number}, ${street_name}, ${suburb || null}, ${clientKey},
+           ${loc.latitude}, ${loc.longitude}, ${loc.accuracy_m}, ${loc.location_source}, ${!!outside}, ${key}
+    WHERE NOT EXISTS (
+      SELECT 1 FROM not_at_home_addresses
+      WHERE session_id = ${session_id} AND block_number = ${block_number} AND address_key = ${key}
+    )
+    ON CONFLICT (session_id, client_key) WHERE client_key IS NOT NULL DO NOTHING
+    RETURNING *
+  `;
+  if (!rows.length) {
+    const existing = await sql`
+      SELECT * FROM not_at_home_addresses
+      WHERE session_id = ${session_id} AND (
+        client_key = ${clientKey} OR (block_number = ${block_number} AND address_key = ${key})
+      )
+      ORDER BY recorded_at LIMIT 1
+    `;
+    if (existing.length) return res.status(200).json({ ...existing[0], duplicate: true });
+    return res.status(409).json({ error: 'Could not save address' });
+  }
+  await publishSessionEvent(session_id, 'address_added', rows[0]);
+  return res.status(201).json(rows[0]);
 }
@@ -2,32 +2,59 @@ import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
 import bcrypt from 'bcryptjs';
 import { signAdminToken, setAdminCookie, AdminPayload } from '../../../lib/auth';
+import { checkThrottle, recordFailure, clearThrottle, clientIp, retryMessage, ThrottleKey } from '../../../lib/rate-limit';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') return res.status(405).end();
   const { email, password } = req.body as { email: string; password: string };
   if (!email || !password) return res.status(400).json({ error: 'Email and password required' });
 
+  const account: ThrottleKey = { scope: 'admin', key: email.toLowerCase().trim() };
+  const keys: ThrottleKey[] = [{ scope: 'ip', key: clientIp(req) }, account];
+  const wait = await checkThrottle(keys);
+  if (wait > 0) {
+    res.setHeader('Retry-After', String(wait));
+    return res.status(429).json({ error: retryMessage(wait) });
+  }
+
   if (
     email.toLowerCase().trim() === (process.env.SUPER_ADMIN_EMAIL || '').toLowerCase() &&
     password === process.env.SUPER_ADMIN_PASSWORD
   ) {
+    await clearThrottle([account]);
     const token = await signAdminToken({ sub: 'super', role: 'super_admin', email });
     setAdminCookie(res, token);
     return res.status(200).json({ role: 'super_admin' });
   }
 
   const rows = await sql`
-    SELECT ca.id, ca.password_hash, ca.congregation_id, c.name as congregation_name
+    SELECT ca.id, ca.password_hash, ca.congregation_id, c.name as congregation_name, c.notification_email
     FROM congregation_admins ca
     JOIN congregations c ON c.id = ca.congregation_id
     WHERE ca.email = ${email.toLowerCase().trim()} LIMIT 1
   `;
-  if (!rows.length) return res.status(401).json({ error: 'Invalid credentials' });
-
-  const valid = await bcrypt.compare(password, rows[0].password_hash);
-  if (!valid) return res.status(401).json({ error: 'Invalid credentials' });
+  const valid = rows.length > 0 && await bcrypt.compare(password, rows[0].password_hash);
+  if (!valid) {
+    const locked = await recordFailure(keys);
+    const lockedAccount = locked.find((k) => k.scope === 'admin');
+    if (lockedAccount && rows[0]?.notification_email) {
+      // Let the congregation know (best-effort — never block the response)
+      try {
+        const { sendLockoutEmail } = await import('../../../lib/email');
+        await sendLockoutEmail({
+          to: rows[0].notification_email,
+          congregationName: rows[0].congregation_name,
+          account: `the admin account ${account.key}`,
+          failures: lockedAccount.failures,
+        });
+      } catch (e) {
+        console.error('Lockout email failed:', e);
+      }
+    }
+    return res.status(401).json({ error: 'Invalid credentials' });
+  }
 
+  await clearThrottle([account]);
   const payload: AdminPayload = {
     sub: rows[0].id,
     role: 'congregation_admin',
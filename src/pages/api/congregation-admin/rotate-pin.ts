@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../lib/db';
+import { requireAdmin, AdminPayload } from '../../../lib/auth';
+import { ensurePinHashColumn, generatePin, hashPin } from '../../../lib/pin';
+
+// Replaces the congregation PIN. Only the hash is stored, so the response is
+// the one and only time the new PIN can be seen. Bumping pin_version signs
+// out every device still logged in with the old PIN.
+async function handler(req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) {
+  if (admin.role !== 'congregation_admin') return res.status(403).json({ error: 'Forbidden' });
+  if (req.method !== 'POST') return res.status(405).end();
+
+  const { pin_code } = (req.body || {}) as { pin_code?: string };
+  const pin = pin_code?.trim() || generatePin();
+  if (pin.length < 4) return res.status(400).json({ error: 'PIN must be at least 4 characters' });
+
+  await ensurePinHashColumn();
+  await sql`
+    UPDATE congregations SET pin_hash = ${await hashPin(pin)}, pin_code = NULL, pin_version = pin_version + 1
+    WHERE id = ${admin.congregation_id!}
+  `;
+  return res.status(200).json({ pin_code: pin });
+}
+export default requireAdmin(handler);
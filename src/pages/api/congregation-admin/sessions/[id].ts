@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../../lib/db';
+import { requireAdmin, AdminPayload } from '../../../../lib/auth';
+import { ensureSessionArchive } from '../../../../lib/session-archive';
+import { resultsCsv, ResultAddress } from '../../../../lib/session-results';
+import { blockSummary, sessionBlockCount } from '../../../../lib/session-blocks';
+
+// One archived session with its addresses. ?format=csv downloads them.
+async function handler(req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) {
+  if (admin.role !== 'congregation_admin') return res.status(403).json({ error: 'Forbidden' });
+  if (req.method !== 'GET') return res.status(405).end();
+  const { id, format } = req.query as { id: string; format?: string };
+
+  await ensureSessionArchive();
+  const rows = await sql`
+    SELECT s.id, s.code, s.map_number, s.created_at, s.ended_at, s.expires_at, s.purged_at,
+           (s.is_active AND s.expires_at > NOW()) AS is_active
+    FROM sessions s
+    WHERE s.id = ${id} AND s.congregation_id = ${admin.congregation_id!}
+    LIMIT 1
+  `;
+  if (!rows.length) return res.status(404).json({ error: 'Session not found' });
+  const addresses = await sql`
+    SELECT id, block_number, unit_number, house_number, street_name, suburb, recorded_at
+    FROM not_at_home_addresses WHERE session_id = ${id}
+    ORDER BY block_number, recorded_at
+  ` as ResultAddress[];
+
+  if (format === 'csv') {
+    const s = rows[0];
+    const date = new Date(s.created_at).toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="not-at-home-map-${s.map_number}-${date}-${s.code}.csv"`);
+    return res.status(200).send(resultsCsv(addresses));
+  }
+  const blocks = await blockSummary(id, await sessionBlockCount(id));
+  return res.status(200).json({ ...rows[0], addresses, blocks });
+}
+export default requireAdmin(handler);
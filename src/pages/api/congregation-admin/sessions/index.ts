@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../../lib/db';
+import { requireAdmin, AdminPayload } from '../../../../lib/auth';
+import { ensureSessionArchive } from '../../../../lib/session-archive';
+
+// Session history for the congregation, newest first
+async function handler(req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) {
+  if (admin.role !== 'congregation_admin') return res.status(403).json({ error: 'Forbidden' });
+  if (req.method !== 'GET') return res.status(405).end();
+
+  await ensureSessionArchive();
+  const rows = await sql`
+    SELECT s.id, s.code, s.map_number, s.created_at, s.ended_at, s.expires_at, s.purged_at,
+           (s.is_active AND s.expires_at > NOW()) AS is_active,
+           m.name AS map_name,
+           (SELECT COUNT(*)::int FROM not_at_home_addresses WHERE session_id = s.id) AS address_count
+    FROM sessions s
+    LEFT JOIN territory_maps m ON m.congregation_id = s.congregation_id AND m.map_number = s.map_number
+    WHERE s.congregation_id = ${admin.congregation_id!}
+    ORDER BY s.created_at DESC
+    LIMIT 200
+  `;
+  return res.status(200).json(rows);
+}
+export default requireAdmin(handler);
@@ -1,23 +1,44 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
 import { requireAdmin, AdminPayload } from '../../../lib/auth';
+import { ensureSessionArchive, MAX_RETENTION_DAYS, MAX_RETURN_VISIT_RETENTION_DAYS } from '../../../lib/session-archive';
+import { ensureGeofence, MAX_GEOFENCE_TOLERANCE_M } from '../../../lib/geofence';
 
 async function handler(req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) {
   if (admin.role !== 'congregation_admin') return res.status(403).json({ error: 'Forbidden' });
   const cid = admin.congregation_id!;
+  await ensureSessionArchive();
+  await ensureGeofence();
 
   if (req.method === 'GET') {
-    const rows = await sql`SELECT name, pin_code, notification_email, contact_email FROM congregations WHERE id = ${cid} LIMIT 1`;
+    const rows = await sql`
+      SELECT name, notification_email, contact_email, session_retention_days, return_visit_retention_days, geofence_tolerance_m
+      FROM congregations WHERE id = ${cid} LIMIT 1
+    `;
     return res.status(200).json(rows[0]);
   }
 
   if (req.method === 'PUT') {
-    const { pin_code, notification_email } = req.body;
+    const { notification_email, session_retention_days, return_visit_retention_days, geofence_tolerance_m } = req.body;
+    const retention = session_retention_days == null || session_retention_days === '' ? null : Number(session_retention_days);
+    if (retention != null && (!Number.isInteger(retention) || retention < 1 || retention > MAX_RETENTION_DAYS)) {
+      return res.status(400).json({ error: `Keep session history for 1–${MAX_RETENTION_DAYS} days` });
+    }
+    const rvRetention = return_visit_retention_days == null || return_visit_retention_days === '' ? null : Number(return_visit_retention_days);
+    if (rvRetention != null && (!Number.isInteger(rvRetention) || rvRetention < 1 || rvRetention > MAX_RETURN_VISIT_RETENTION_DAYS)) {
+      return res.status(400).json({ error: `Keep open return visits for 1–${MAX_RETURN_VISIT_RETENTION_DAYS} days` });
+    }
+    const tolerance = geofence_tolerance_m == null || geofence_tolerance_m === '' ? null : Number(geofence_tolerance_m);
+    if (tolerance != null && (!Number.isInteger(tolerance) || tolerance < 0 || tolerance > MAX_GEOFENCE_TOLERANCE_M)) {
+      return res.status(400).json({ error: `Boundary tolerance must be 0–${MAX_GEOFENCE_TOLERANCE_M} metres` });
+    }
     const rows = await sql`
       UPDATE congregations SET
-        pin_code = COALESCE(${pin_code || null}, pin_code),
-        notification_email = COALESCE(${notification_email || null}, notification_email)
-      WHERE id = ${cid} RETURNING name, pin_code, notification_email
+        notification_email = COALESCE(${notification_email || null}, notification_email),
+        session_retention_days = COALESCE(${retention}, session_retention_days),
+        return_visit_retention_days = COALESCE(${rvRetention}, return_visit_retention_days),
+        geofence_tolerance_m = COALESCE(${tolerance}, geofence_tolerance_m)
+      WHERE id = ${cid} RETURNING name, notification_email, contact_email, session_retention_days, return_visit_retention_days, geofence_tolerance_m
     `;
     return res.status(200).json(rows[0]);
   }
@@ -1,16 +1,55 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../lib/db';
+import { signCongregationToken, setCongregationCookie } from '../../lib/auth';
+import { ensurePinHashColumn, verifyCongregationPin } from '../../lib/pin';
+import { checkThrottle, recordFailure, clearThrottle, clientIp, retryMessage, ThrottleKey } from '../../lib/rate-limit';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') return res.status(405).end();
   const { name, pin_code } = req.body as { name: string; pin_code: string };
   if (!name || !pin_code) return res.status(400).json({ error: 'Name and PIN required' });
 
+  // PINs are short, so failures are throttled per IP and per congregation
+  const account: ThrottleKey = { scope: 'congregation', key: name.trim().toLowerCase() };
+  const keys: ThrottleKey[] = [{ scope: 'ip', key: clientIp(req) }, account];
+  const wait = await checkThrottle(keys);
+  if (wait > 0) {
+    res.setHeader('Retry-After', String(wait));
+    return res.status(429).json({ error: retryMessage(wait) });
+  }
+
+  await ensurePinHashColumn();
   const rows = await sql`
-    SELECT id, name FROM congregations
-    WHERE LOWER(name) = LOWER(${name.trim()}) AND pin_code = ${pin_code.trim()} AND status = 'active'
+    SELECT id, name, pin_hash, pin_code, pin_version FROM congregations
+    WHERE LOWER(name) = LOWER(${name.trim()}) AND status = 'active'
     LIMIT 1
   `;
-  if (!rows.length) return res.status(401).json({ error: 'Invalid congregation name or PIN' });
+  const valid = rows.length > 0 && await verifyCongregationPin(rows[0] as { id: string }, pin_code);
+  if (!valid) {
+    const locked = await recordFailure(keys);
+    const lockedAccount = locked.find((k) => k.scope === 'congregation');
+    if (lockedAccount) {
+      // Let the congregation know (best-effort — never block the response)
+      try {
+        const cong = await sql`SELECT name, notification_email FROM congregations WHERE LOWER(name) = ${account.key} LIMIT 1`;
+        if (cong[0]?.notification_email) {
+          const { sendLockoutEmail } = await import('../../lib/email');
+          await sendLockoutEmail({
+            to: cong[0].notification_email,
+            congregationName: cong[0].name,
+            account: 'the congregation PIN login',
+            failures: lockedAccount.failures,
+          });
+        }
+      } catch (e) {
+        console.error('Lockout email failed:', e);
+      }
+    }
+    return res.status(401).json({ error: 'Invalid congregation name or PIN' });
+  }
+
+  await clearThrottle([account]);
+  const token = await signCongregationToken({ sub: rows[0].id, name: rows[0].name, pin_version: rows[0].pin_version });
+  setCongregationCookie(res, token);
   return res.status(200).json({ id: rows[0].id, name: rows[0].name });
 }
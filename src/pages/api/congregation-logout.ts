@@ -0,0 +1,7 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { clearCongregationCookie } from '../../lib/auth';
+
+export default function handler(_req: NextApiRequest, res: NextApiResponse) {
+  clearCongregationCookie(res);
+  return res.status(200).json({ success: true });
+}
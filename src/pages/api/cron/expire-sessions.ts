@@ -1,6 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
 import { sendSessionExpiredEmail } from '../../../lib/email';
+import { publishSessionEvent } from '../../../lib/events';
+import { endSession, purgeExpiredArchives } from '../../../lib/session-archive';
+import { blockSummary, sessionBlockCount } from '../../../lib/session-blocks';
+import { backfillAddressKeys } from '../../../lib/address-keys';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.headers['x-cron-secret'] !== process.env.CRON_SECRET) return res.status(401).end();
@@ -23,10 +27,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         sessionCode: session.code,
         mapNumber: session.map_number,
         addresses,
+        blocks: await blockSummary(session.id, await sessionBlockCount(session.id)),
       }).catch(console.error);
     }
-    await sql`UPDATE sessions SET is_active = false WHERE id = ${session.id}`;
+    await endSession(session.id);
+    await publishSessionEvent(session.id, 'session_ended');
   }
 
-  return res.status(200).json({ expired: expired.length });
+  // Live-update events are only needed while a session is open
+  await sql`DELETE FROM session_events WHERE created_at < NOW() - INTERVAL '2 days'`.catch(() => {});
+
+  // Archived addresses are kept for each congregation's retention period
+  const purged = await purgeExpiredArchives();
+
+  // Key any DNC and not-at-home rows saved before address keys existed
+  await backfillAddressKeys();
+
+  return res.status(200).json({ expired: expired.length, purged });
 }
@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../../lib/db';
+import { requireAdmin, AdminPayload } from '../../../../lib/auth';
+import { assignmentHistory, ensureTerritoryAssignments, findCongregationMap } from '../../../../lib/territory-register';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Territory register for one map:
+//   GET  — coverage history, newest first
+//   POST — check out { assignee, checked_out_on?, notes? }
+//   PUT  — check in the open assignment { checked_in_on? }
+//   DELETE — remove a mistaken entry { assignment_id }
+async function handler(req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) {
+  if (admin.role !== 'congregation_admin') return res.status(403).json({ error: 'Forbidden' });
+  const { id } = req.query as { id: string };
+  const map = await findCongregationMap(id, admin.congregation_id!);
+  if (!map) return res.status(404).json({ error: 'Map not found' });
+  await ensureTerritoryAssignments();
+
+  if (req.method === 'GET') {
+    return res.status(200).json(await assignmentHistory(admin.congregation_id!, id));
+  }
+
+  if (req.method === 'POST') {
+    const { assignee, checked_out_on, notes } = req.body as { assignee?: string; checked_out_on?: string; notes?: string };
+    if (!assignee?.trim()) return res.status(400).json({ error: 'assignee required' });
+    if (checked_out_on && !DATE.test(checked_out_on)) return res.status(400).json({ error: 'checked_out_on must be YYYY-MM-DD' });
+    const rows = await sql`
+      INSERT INTO territory_assignments (map_id, assignee, checked_out_on, notes)
+      VALUES (${id}, ${assignee.trim()}, COALESCE(${checked_out_on || null}::date, CURRENT_DATE), ${notes?.trim() || null})
+      ON CONFLICT (map_id) WHERE checked_in_on IS NULL DO NOTHING
+      RETURNING id
+    `;
+    if (!rows.length) return res.status(409).json({ error: `Map ${map.map_number} is already checked out` });
+    return res.status(201).json({ id: rows[0].id });
+  }
+
+  if (req.method === 'PUT') {
+    const { checked_in_on } = req.body as { checked_in_on?: string };
+    if (checked_in_on && !DATE.test(checked_in_on)) return res.status(400).json({ error: 'checked_in_on must be YYYY-MM-DD' });
+    const rows = await sql`
+      UPDATE territory_assignments SET checked_in_on = GREATEST(checked_out_on, COALESCE(${checked_in_on || null}::date, CURRENT_DATE))
+      WHERE map_id = ${id} AND checked_in_on IS NULL
+      RETURNING id
+    `;
+    if (!rows.length) return res.status(409).json({ error: `Map ${map.map_number} is not checked out` });
+    return res.status(200).json({ id: rows[0].id });
+  }
+
+  if (req.method === 'DELETE') {
+    const { assignment_id } = req.body;
+    await sql`DELETE FROM territory_assignments WHERE id = ${assignment_id} AND map_id = ${id}`;
+    return res.status(204).end();
+  }
+
+  return res.status(405).end();
+}
+export default requireAdmin(handler);
@@ -0,0 +1,10 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import cards from '../cards';
+
+export const config = { api: { responseLimit: false }, maxDuration: 60 };
+
+// Printable territory card for one map (PDF) — /api/maps/cards?ids=<id>
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  req.query = { ids: String(req.query.id) };
+  return cards(req, res);
+}
@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../../lib/db';
 import { requireAdmin } from '../../../../lib/auth';
+import { addressKeyFromText, dncAddressFields } from '../../../../lib/address';
+import { backfillAddressKeys } from '../../../../lib/address-keys';
 
 export default requireAdmin(async (req, res) => {
   const { id } = req.query as { id: string };
@@ -9,7 +11,8 @@ export default requireAdmin(async (req, res) => {
     let rows;
     try {
       // Admin manage list mirrors the map: approved entries only
-      rows = await sql`SELECT id, block_number, address, note, last_visit FROM do_not_call WHERE map_id = ${id} AND COALESCE(status, 'approved') = 'approved' ORDER BY block_number NULLS LAST, address`;
+      await backfillAddressKeys();
+      rows = await sql`SELECT id, block_number, address, note, last_visit FROM do_not_call WHERE map_id = ${id} AND COALESCE(status, 'approved') = 'approved' ORDER BY block_number NULLS LAST, address_key`;
     } catch {
       // newer columns not added yet (created on first DNC write)
       rows = await sql`SELECT id, address, note FROM do_not_call WHERE map_id = ${id} ORDER BY address`;
@@ -23,10 +26,16 @@ export default requireAdmin(async (req, res) => {
     await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS block_number INTEGER`;
     await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS last_visit TEXT`;
     await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved'`;
+    await backfillAddressKeys();
+    const key = addressKeyFromText(address);
+    const existing = await sql`SELECT id FROM do_not_call WHERE map_id = ${id} AND address_key = ${key} AND status = 'approved' LIMIT 1`;
+    if (existing.length) return res.status(409).json({ error: 'This address is already on the Do Not Call list' });
     // Admin-added entries are approved immediately
+    const f = dncAddressFields(address);
     const rows = await sql`
-      INSERT INTO do_not_call (map_id, block_number, address, note, last_visit, status)
-      VALUES (${id}, ${block_number || null}, ${address.trim()}, ${note?.trim() || null}, ${last_visit?.trim() || null}, 'approved')
+      INSERT INTO do_not_call (map_id, block_number, address, unit_number, house_number, street_name, suburb, address_key, note, last_visit, status)
+      VALUES (${id}, ${block_number || null}, ${address.trim()}, ${f.unit_number}, ${f.house_number}, ${f.street_name}, ${f.suburb},
+              ${key}, ${note?.trim() || null}, ${last_visit?.trim() || null}, 'approved')
       RETURNING id, block_number, address, note, last_visit
     `;
     return res.status(201).json(rows[0]);
@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../../lib/db';
+import { requireAdmin, AdminPayload } from '../../../../lib/auth';
+import { GeometryError, parseMapGeoJson, toFeatureCollection } from '../../../../lib/map-geometry';
+import { ensureMapOutlines } from '../../../../lib/map-outlines';
+
+export const config = { api: { bodyParser: { sizeLimit: '5mb' } } };
+
+// Boundary and block polygons for one map:
+//   GET    — the stored outlines as a GeoJSON FeatureCollection
+//   PUT    — replace them { geojson } (FeatureCollection, object or text)
+//   DELETE — remove them
+async function handler(req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) {
+  if (admin.role !== 'congregation_admin') return res.status(403).json({ error: 'Forbidden' });
+  const { id } = req.query as { id: string };
+  await ensureMapOutlines();
+  const maps = await sql`
+    SELECT id, map_number, block_count, boundary, block_shapes FROM territory_maps
+    WHERE id = ${id} AND congregation_id = ${admin.congregation_id!} LIMIT 1
+  `;
+  if (!maps.length) return res.status(404).json({ error: 'Map not found' });
+  const map = maps[0];
+
+  if (req.method === 'GET') {
+    res.setHeader('Content-Type', 'application/geo+json');
+    res.setHeader('Content-Disposition', `attachment; filename="map-${map.map_number}.geojson"`);
+    return res.status(200).send(JSON.stringify(toFeatureCollection({ boundary: map.boundary, block_shapes: map.block_shapes })));
+  }
+
+  if (req.method === 'PUT') {
+    let geometry;
+    try {
+      geometry = parseMapGeoJson(req.body?.geojson, map.block_count);
+    } catch (e) {
+      if (e instanceof GeometryError) return res.status(400).json({ error: e.message });
+      throw e;
+    }
+    await sql`
+      UPDATE territory_maps SET
+        boundary = ${geometry.boundary ? JSON.stringify(geometry.boundary) : null}::jsonb,
+        block_shapes = ${geometry.block_shapes ? JSON.stringify(geometry.block_shapes) : null}::jsonb
+      WHERE id = ${id}
+    `;
+    return res.status(200).json(geometry);
+  }
+
+  if (req.method === 'DELETE') {
+    await sql`UPDATE territory_maps SET boundary = NULL, block_shapes = NULL WHERE id = ${id}`;
+    return res.status(204).end();
+  }
+
+  return res.status(405).end();
+}
+export default requireAdmin(handler);
@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../../lib/db';
+import { requireAdmin, AdminPayload } from '../../../../lib/auth';
+import { GeometryError, checkHotspots } from '../../../../lib/map-geometry';
+import { ensureMapOutlines } from '../../../../lib/map-outlines';
+
+// Block hotspots drawn on a map's image:
+//   GET — the stored hotspots
+//   PUT — replace them { hotspots: [{ block_number, points: [[x, y], …] }] }
+async function handler(req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) {
+  if (admin.role !== 'congregation_admin') return res.status(403).json({ error: 'Forbidden' });
+  const { id } = req.query as { id: string };
+  await ensureMapOutlines();
+  const maps = await sql`
+    SELECT id, block_count, image_hotspots FROM territory_maps
+    WHERE id = ${id} AND congregation_id = ${admin.congregation_id!} LIMIT 1
+  `;
+  if (!maps.length) return res.status(404).json({ error: 'Map not found' });
+
+  if (req.method === 'GET') {
+    return res.status(200).json(maps[0].image_hotspots || []);
+  }
+
+  if (req.method === 'PUT') {
+    let hotspots;
+    try {
+      hotspots = checkHotspots(req.body?.hotspots, maps[0].block_count);
+    } catch (e) {
+      if (e instanceof GeometryError) return res.status(400).json({ error: e.message });
+      throw e;
+    }
+    await sql`
+      UPDATE territory_maps SET image_hotspots = ${hotspots.length ? JSON.stringify(hotspots) : null}::jsonb
+      WHERE id = ${id}
+    `;
+    return res.status(200).json(hotspots);
+  }
+
+  return res.status(405).end();
+}
+export default requireAdmin(handler);
@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../lib/db';
+import { requireAdmin, AdminPayload } from '../../../lib/auth';
+import { MAX_CARDS, loadCardData, renderTerritoryCards } from '../../../lib/territory-card';
+
+export const config = { api: { responseLimit: false }, maxDuration: 60 };
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Territory cards for every map as one PDF (the Maps tab "print all"), or only ?ids=<id>,<id>
+export default requireAdmin(async (req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) => {
+  if (req.method !== 'GET') return res.status(405).end();
+  if (admin.role !== 'congregation_admin') return res.status(403).json({ error: 'Forbidden' });
+
+  const ids = typeof req.query.ids === 'string' ? req.query.ids.split(',').filter(Boolean) : undefined;
+  if (ids && (!ids.length || !ids.every((id) => UUID.test(id)))) return res.status(400).json({ error: 'Invalid map ids' });
+  if (ids && ids.length > MAX_CARDS) return res.status(400).json({ error: `Print at most ${MAX_CARDS} maps at a time` });
+  const cards = await loadCardData(admin.congregation_id!, ids);
+  if (!cards.length) return res.status(404).json({ error: 'No maps found' });
+  if (cards.length > MAX_CARDS) {
+    return res.status(400).json({ error: `Too many maps to print at once — choose up to ${MAX_CARDS} with ?ids=` });
+  }
+
+  const cong = await sql`SELECT name FROM congregations WHERE id = ${admin.congregation_id!} LIMIT 1`;
+  const pdf = await renderTerritoryCards(cards, cong[0]?.name || 'Territory');
+  const filename = cards.length === 1 ? `territory-map-${cards[0].map_number}.pdf` : 'territory-cards.pdf';
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+  return res.status(200).send(Buffer.from(pdf));
+});
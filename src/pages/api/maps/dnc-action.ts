@@ -1,16 +1,21 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
+import { publishMapEvent } from '../../../lib/events';
+import { requireParticipant, ParticipantPayload } from '../../../lib/auth';
 
 // Session-scoped DNC actions used from the field (no admin login):
 //   touch  — stamp last_visit with the current date
 //   delete — remove the DNC entry
-// The caller must supply an active session whose territory map owns the entry.
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+// The caller's participant token must name an active session whose territory
+// map owns the entry.
+async function handler(req: NextApiRequest, res: NextApiResponse, participant: ParticipantPayload) {
   if (req.method !== 'POST') return res.status(405).end();
 
-  const { session_id, dnc_id, action } = req.body as { session_id?: string; dnc_id?: string; action?: string };
-  if (!session_id || !dnc_id || (action !== 'touch' && action !== 'delete')) {
-    return res.status(400).json({ error: 'session_id, dnc_id and a valid action are required' });
+  const { dnc_id, action } = req.body as { session_id?: string; dnc_id?: string; action?: string };
+  const session_id = participant.sub;
+  if (req.body.session_id && req.body.session_id !== session_id) return res.status(403).json({ error: 'Forbidden' });
+  if (!dnc_id || (action !== 'touch' && action !== 'delete')) {
+    return res.status(400).json({ error: 'dnc_id and a valid action are required' });
   }
 
   const session = await sql`
@@ -31,6 +36,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   if (action === 'delete') {
     await sql`DELETE FROM do_not_call WHERE id = ${dnc_id}`;
+    await publishMapEvent(session[0].congregation_id, session[0].map_number, 'dnc_deleted', { id: dnc_id });
     return res.status(200).json({ ok: true, action: 'delete' });
   }
 
@@ -39,5 +45,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Australia/Sydney',
   });
   await sql`UPDATE do_not_call SET last_visit = ${lastVisit} WHERE id = ${dnc_id}`;
+  await publishMapEvent(session[0].congregation_id, session[0].map_number, 'dnc_touched', { id: dnc_id, last_visit: lastVisit });
   return res.status(200).json({ ok: true, action: 'touch', last_visit: lastVisit });
 }
+
+export default requireParticipant(handler);
@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../lib/db';
+import { requireAdmin, AdminPayload } from '../../../lib/auth';
+import { DncExportRow, dncWorkbook } from '../../../lib/dnc-workbook';
+import { backfillAddressKeys } from '../../../lib/address-keys';
+
+// Approved Do Not Call entries as an Excel workbook: ?layout=combined
+// (default, one sheet with a map column) or ?layout=sheets (one per map)
+export default requireAdmin(async (req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) => {
+  if (req.method !== 'GET') return res.status(405).end();
+
+  const congregation_id = admin.role === 'super_admin'
+    ? req.query.congregation_id as string
+    : admin.congregation_id!;
+  if (!congregation_id) return res.status(400).json({ error: 'congregation_id required' });
+
+  await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS block_number INTEGER`;
+  await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS last_visit TEXT`;
+  await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved'`;
+  await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS reason TEXT`;
+  await backfillAddressKeys();
+
+  const cong = await sql`SELECT name FROM congregations WHERE id = ${congregation_id} LIMIT 1`;
+  const rows = await sql`
+    SELECT m.map_number, m.name AS map_name, d.block_number, d.address, d.note, d.reason, d.last_visit
+    FROM do_not_call d JOIN territory_maps m ON m.id = d.map_id
+    WHERE m.congregation_id = ${congregation_id} AND d.status = 'approved'
+    ORDER BY m.map_number, d.block_number NULLS LAST, d.address_key
+  ` as DncExportRow[];
+
+  const layout = req.query.layout === 'sheets' ? 'sheets' : 'combined';
+  const title = `${cong[0]?.name || 'Congregation'} Do Not Calls`;
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  res.setHeader('Content-Disposition', `attachment; filename="${slug}.xlsx"`);
+  return res.status(200).send(await dncWorkbook(rows, layout, title));
+});
@@ -1,14 +1,32 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
 import { requireAdmin, AdminPayload } from '../../../lib/auth';
+import { readWorkbookRows } from '../../../lib/dnc-workbook';
+import { addressKeyFromText, dncAddressFields } from '../../../lib/address';
+import { backfillAddressKeys } from '../../../lib/address-keys';
+
+export const config = { api: { bodyParser: { sizeLimit: '10mb' } } };
 
 interface ImportEntry {
+  row?: number; // source row number, echoed back in the report
   map_number: number | string;
   block_number?: number | string | null;
   address: string;
   last_visit?: string | null;
+  note?: string | null;
+  reason?: string | null;
 }
 
+// "12", "Map 12", "Territory #12 Green Valley" (e.g. a sheet name) → 12
+const MAP_NUMBER = /^\s*(?:map|territory|terr\.?)?\s*#?\s*(\d+)\b/i;
+
+type RowIssue = { row: number; map_number?: number | string; address?: string; reason: string };
+
+// Imports DNC entries { entries, dry_run? }. With dry_run nothing is written;
+// the response lists what would be inserted or updated and which rows are
+// unmatched or invalid, so the admin can review before committing.
+// { xlsx_base64 } instead reads an Excel workbook and returns its
+// { headers, rows } for the column-mapping step.
 export default requireAdmin(async (req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) => {
   if (req.method !== 'POST') return res.status(405).end();
 
@@ -17,7 +35,16 @@ export default requireAdmin(async (req: NextApiRequest, res: NextApiResponse, ad
     : admin.congregation_id!;
   if (!congregation_id) return res.status(400).json({ error: 'congregation_id required' });
 
+  if (typeof req.body.xlsx_base64 === 'string') {
+    try {
+      return res.status(200).json(await readWorkbookRows(Buffer.from(req.body.xlsx_base64, 'base64')));
+    } catch {
+      return res.status(400).json({ error: 'Could not read the Excel file — save it as .xlsx and try again' });
+    }
+  }
+
   const entries = req.body.entries as ImportEntry[];
+  const dryRun = req.body.dry_run === true;
   if (!Array.isArray(entries) || !entries.length) {
     return res.status(400).json({ error: 'entries array required' });
   }
@@ -25,29 +52,89 @@ export default requireAdmin(async (req: NextApiRequest, res: NextApiResponse, ad
 
   await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS block_number INTEGER`;
   await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS last_visit TEXT`;
+  await sql`ALTER TABLE do_not_call ADD COLUMN IF NOT EXISTS reason TEXT`;
+  await backfillAddressKeys();
 
-  const maps = await sql`SELECT id, map_number FROM territory_maps WHERE congregation_id = ${congregation_id}`;
-  const mapByNumber = new Map<number, string>();
-  for (const m of maps) mapByNumber.set(Number(m.map_number), m.id as string);
+  const maps = await sql`SELECT id, map_number, block_count FROM territory_maps WHERE congregation_id = ${congregation_id}`;
+  const mapByNumber = new Map<number, { id: string; block_count: number }>();
+  for (const m of maps) mapByNumber.set(Number(m.map_number), { id: m.id as string, block_count: Number(m.block_count) });
 
   const unmatchedMaps = new Set<number>();
+  const unmatched: RowIssue[] = [];
+  const invalid: RowIssue[] = [];
+  const rows: number[] = [];
   const mapIds: string[] = [];
   const blocks: (number | null)[] = [];
   const addrs: string[] = [];
+  const keys: string[] = [];
   const visits: (string | null)[] = [];
+  const notes: (string | null)[] = [];
+  const reasons: (string | null)[] = [];
+  const seen = new Set<string>();
 
-  for (const e of entries) {
-    const mapNumber = Number(e.map_number);
-    const address = String(e.address || '').trim();
-    if (!address || isNaN(mapNumber)) continue;
+  entries.forEach((e, i) => {
+    const row = Number(e.row) || i + 1;
+    const address = String(e.address ?? '').trim();
+    const rawMap = String(e.map_number ?? '').trim();
+    const mapNumber = Number(rawMap.match(MAP_NUMBER)?.[1] ?? NaN);
+    const rawBlock = e.block_number != null ? String(e.block_number).trim() : '';
+    const block = rawBlock === '' ? null : Number(rawBlock);
+    const issue = (reason: string) => invalid.push({ row, map_number: e.map_number, address, reason });
 
-    const mapId = mapByNumber.get(mapNumber);
-    if (!mapId) { unmatchedMaps.add(mapNumber); continue; }
+    if (!address) return issue('Missing address');
+    if (!rawMap || !Number.isInteger(mapNumber)) return issue(rawMap ? `Map number "${rawMap}" is not a number` : 'Missing map number');
+    const map = mapByNumber.get(mapNumber);
+    if (!map) {
+      unmatchedMaps.add(mapNumber);
+      unmatched.push({ row, map_number: mapNumber, address, reason: `No map ${mapNumber}` });
+      return;
+    }
+    if (block != null && (!Number.isInteger(block) || block < 1 || block > map.block_count)) {
+      return issue(`Block "${rawBlock}" is not one of map ${mapNumber}'s ${map.block_count} blocks`);
+    }
+    const key = addressKeyFromText(address);
+    if (seen.has(`${map.id}|${key}`)) return issue('Duplicate of an earlier row');
+    seen.add(`${map.id}|${key}`);
 
-    mapIds.push(mapId);
-    blocks.push(e.block_number != null && String(e.block_number).trim() !== '' ? Number(e.block_number) : null);
+    rows.push(row);
+    mapIds.push(map.id);
+    blocks.push(block);
     addrs.push(address);
+    keys.push(key);
     visits.push(e.last_visit ? String(e.last_visit).trim() : null);
+    notes.push(e.note ? String(e.note).trim() : null);
+    reasons.push(e.reason ? String(e.reason).trim() : null);
+  });
+
+  const report = {
+    unmatched_maps: Array.from(unmatchedMaps).sort((a, b) => a - b),
+    unmatched,
+    invalid,
+  };
+
+  if (dryRun) {
+    const existing = mapIds.length
+      ? await sql`
+          SELECT DISTINCT d.i FROM unnest(${mapIds}::uuid[], ${keys}::text[]) WITH ORDINALITY AS d(map_id, address_key, i)
+          JOIN do_not_call x ON x.map_id = d.map_id AND x.address_key = d.address_key
+        `
+      : [];
+    const isExisting = new Set(existing.map((r) => Number(r.i) - 1));
+    const preview = rows.map((row, i) => ({
+      row,
+      map_number: maps.find((m) => m.id === mapIds[i])?.map_number,
+      block_number: blocks[i],
+      address: addrs[i],
+      last_visit: visits[i],
+      note: notes[i],
+      reason: reasons[i],
+    }));
+    return res.status(200).json({
+      dry_run: true,
+      would_insert: preview.filter((_, i) => !isExisting.has(i)),
+      would_update: preview.filter((_, i) => isExisting.has(i)),
+      ...report,
+    });
   }
 
   // Batched update-then-insert keeps this to a few queries so large
@@ -58,26 +145,36 @@ export default requireAdmin(async (req: NextApiRequest, res: NextApiResponse, ad
     const upd = await sql`
       UPDATE do_not_call x SET
         block_number = COALESCE(d.block_number, x.block_number),
-        last_visit = COALESCE(d.last_visit, x.last_visit)
-      FROM (SELECT * FROM unnest(${mapIds}::uuid[], ${blocks}::int[], ${addrs}::text[], ${visits}::text[])
-            AS t(map_id, block_number, address, last_visit)) d
-      WHERE x.map_id = d.map_id AND LOWER(x.address) = LOWER(d.address)
+        last_visit = COALESCE(d.last_visit, x.last_visit),
+        note = COALESCE(d.note, x.note),
+        reason = COALESCE(d.reason, x.reason)
+      FROM (SELECT * FROM unnest(${mapIds}::uuid[], ${blocks}::int[], ${keys}::text[], ${visits}::text[], ${notes}::text[], ${reasons}::text[])
+            AS t(map_id, block_number, address_key, last_visit, note, reason)) d
+      WHERE x.map_id = d.map_id AND x.address_key = d.address_key
       RETURNING x.id
     `;
     updated = upd.length;
 
+    const fields = addrs.map(dncAddressFields);
     const ins = await sql`
-      INSERT INTO do_not_call (map_id, block_number, address, note, last_visit)
-      SELECT d.map_id, d.block_number, d.address, 'DNC', d.last_visit
-      FROM (SELECT * FROM unnest(${mapIds}::uuid[], ${blocks}::int[], ${addrs}::text[], ${visits}::text[])
-            AS t(map_id, block_number, address, last_visit)) d
+      INSERT INTO do_not_call (
+        map_id, block_number, address, unit_number, house_number, street_name, suburb, address_key, note, reason, last_visit
+      )
+      SELECT d.map_id, d.block_number, d.address, d.unit_number, d.house_number, d.street_name, d.suburb, d.address_key,
+             COALESCE(d.note, 'DNC'), d.reason, d.last_visit
+      FROM (SELECT * FROM unnest(
+              ${mapIds}::uuid[], ${blocks}::int[], ${addrs}::text[],
+              ${fields.map((f) => f.unit_number)}::text[], ${fields.map((f) => f.house_number)}::text[],
+              ${fields.map((f) => f.street_name)}::text[], ${fields.map((f) => f.suburb)}::text[],
+              ${keys}::text[], ${visits}::text[], ${notes}::text[], ${reasons}::text[]
+            ) AS t(map_id, block_number, address, unit_number, house_number, street_name, suburb, address_key, last_visit, note, reason)) d
       WHERE NOT EXISTS (
-        SELECT 1 FROM do_not_call x WHERE x.map_id = d.map_id AND LOWER(x.address) = LOWER(d.address)
+        SELECT 1 FROM do_not_call x WHERE x.map_id = d.map_id AND x.address_key = d.address_key
       )
       RETURNING id
     `;
     imported = ins.length;
   }
 
-  return res.status(200).json({ imported, updated, unmatched_maps: Array.from(unmatchedMaps).sort((a, b) => a - b) });
+  return res.status(200).json({ imported, updated, ...report });
 });
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../lib/db';
+import { requireAdmin, AdminPayload } from '../../../lib/auth';
+import { ensureMapOutlines } from '../../../lib/map-outlines';
+import { ExportedMap, territoriesToGeoJson, territoriesToKml } from '../../../lib/territory-files';
+
+// Every outlined map of the congregation as one file: ?format=geojson (default) or kml
+export default requireAdmin(async (req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) => {
+  if (req.method !== 'GET') return res.status(405).end();
+
+  const congregation_id = admin.role === 'super_admin'
+    ? req.query.congregation_id as string
+    : admin.congregation_id!;
+  if (!congregation_id) return res.status(400).json({ error: 'congregation_id required' });
+
+  await ensureMapOutlines();
+  const cong = await sql`SELECT name FROM congregations WHERE id = ${congregation_id} LIMIT 1`;
+  const maps = await sql`
+    SELECT map_number, name, boundary, block_shapes FROM territory_maps
+    WHERE congregation_id = ${congregation_id} AND (boundary IS NOT NULL OR block_shapes IS NOT NULL)
+    ORDER BY map_number
+  ` as ExportedMap[];
+
+  const title = `${cong[0]?.name || 'Territory'} maps`;
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  if (req.query.format === 'kml') {
+    res.setHeader('Content-Type', 'application/vnd.google-earth.kml+xml');
+    res.setHeader('Content-Disposition', `attachment; filename="${slug}.kml"`);
+    return res.status(200).send(territoriesToKml(maps, title));
+  }
+  res.setHeader('Content-Type', 'application/geo+json');
+  res.setHeader('Content-Disposition', `attachment; filename="${slug}.geojson"`);
+  return res.status(200).send(JSON.stringify(territoriesToGeoJson(maps)));
+});
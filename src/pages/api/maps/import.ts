@@ -0,0 +1,70 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../lib/db';
+import { requireAdmin, AdminPayload } from '../../../lib/auth';
+import { GeometryError } from '../../../lib/map-geometry';
+import { ensureMapOutlines } from '../../../lib/map-outlines';
+import { groupTerritoryMaps, readTerritoryFile } from '../../../lib/territory-files';
+
+export const config = { api: { bodyParser: { sizeLimit: '10mb' } } };
+
+const MAX_MAPS = 500;
+
+// Creates or updates maps from a KML or GeoJSON territory file
+// { filename, content }. Existing maps keep their image, DNC list and any
+// outline the file doesn't provide; the block count only ever grows.
+export default requireAdmin(async (req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) => {
+  if (req.method !== 'POST') return res.status(405).end();
+
+  const congregation_id = admin.role === 'super_admin'
+    ? (req.body.congregation_id as string)
+    : admin.congregation_id!;
+  if (!congregation_id) return res.status(400).json({ error: 'congregation_id required' });
+
+  const { filename, content } = req.body as { filename?: string; content?: string };
+  if (!content || typeof content !== 'string') return res.status(400).json({ error: 'content required' });
+
+  let parsed;
+  try {
+    parsed = groupTerritoryMaps(readTerritoryFile(content, filename));
+  } catch (e) {
+    if (e instanceof GeometryError) return res.status(400).json({ error: e.message });
+    throw e;
+  }
+  if (!parsed.maps.length) {
+    return res.status(400).json({ error: 'No territory maps found in the file', errors: parsed.errors });
+  }
+  if (parsed.maps.length > MAX_MAPS) return res.status(400).json({ error: `Too many maps (max ${MAX_MAPS})` });
+
+  await ensureMapOutlines();
+  let created = 0;
+  let updated = 0;
+  for (const m of parsed.maps) {
+    const { boundary, block_shapes } = m.geometry;
+    const rows = await sql`
+      INSERT INTO territory_maps (congregation_id, map_number, name, block_count, boundary, block_shapes)
+      VALUES (
+        ${congregation_id}, ${m.map_number}, ${m.name}, ${m.block_count},
+        ${boundary ? JSON.stringify(boundary) : null}::jsonb, ${block_shapes ? JSON.stringify(block_shapes) : null}::jsonb
+      )
+      ON CONFLICT (congregation_id, map_number) DO UPDATE SET
+        name = COALESCE(EXCLUDED.name, territory_maps.name),
+        block_count = GREATEST(territory_maps.block_count, EXCLUDED.block_count),
+        boundary = COALESCE(EXCLUDED.boundary, territory_maps.boundary),
+        block_shapes = COALESCE(EXCLUDED.block_shapes, territory_maps.block_shapes)
+      RETURNING (xmax = 0) AS inserted
+    `;
+    if (rows[0].inserted) created++; else updated++;
+  }
+
+  return res.status(200).json({
+    created,
+    updated,
+    maps: parsed.maps.map((m) => ({
+      map_number: m.map_number,
+      name: m.name,
+      boundary: !!m.geometry.boundary,
+      blocks: m.geometry.block_shapes?.features.length || 0,
+    })),
+    errors: parsed.errors,
+  });
+});
@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireAdmin, AdminPayload } from '../../../lib/auth';
+import { toCsv } from '../../../lib/csv';
+import { assignmentHistory, territoryOverview } from '../../../lib/territory-register';
+
+// Territory register overview for the congregation.
+//   ?months=N    only maps not covered (completed or worked in a session) in the last N months
+//   ?format=csv  territory assignment record (one row per assignment)
+async function handler(req: NextApiRequest, res: NextApiResponse, admin: AdminPayload) {
+  if (admin.role !== 'congregation_admin') return res.status(403).json({ error: 'Forbidden' });
+  if (req.method !== 'GET') return res.status(405).end();
+  const months = Number(req.query.months) || undefined;
+  const cid = admin.congregation_id!;
+
+  const overview = await territoryOverview(cid, months);
+  if (req.query.format !== 'csv') return res.status(200).json(overview);
+
+  const history = await assignmentHistory(cid);
+  const rows: unknown[][] = [['Terr. No.', 'Name', 'Last Completed', 'Assigned To', 'Date Assigned', 'Date Completed', 'Notes']];
+  for (const m of overview) {
+    const entries = history.filter((h) => h.map_id === m.id);
+    if (!entries.length) rows.push([m.map_number, m.name, m.last_completed_on, '', '', '', '']);
+    for (const h of entries) rows.push([m.map_number, m.name, m.last_completed_on, h.assignee, h.checked_out_on, h.checked_in_on, h.notes]);
+  }
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="territory-assignment-record-${date}.csv"`);
+  return res.status(200).send(toCsv(rows));
+}
+export default requireAdmin(handler);
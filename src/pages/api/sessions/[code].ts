@@ -1,31 +1,53 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
+import { publishSessionEvent } from '../../../lib/events';
+import { endSession } from '../../../lib/session-archive';
+import { ensureGeofence } from '../../../lib/geofence';
+import { blockSummary, sessionBlockCount } from '../../../lib/session-blocks';
+import { getParticipantFromRequest, requireParticipant, signParticipantToken, ParticipantPayload } from '../../../lib/auth';
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const { code } = req.query as { code: string };
 
+  // Joining issues a participant token scoped to this session. Only the
+  // session's creator holds an overseer token; presenting it here renews it.
   if (req.method === 'GET') {
+    await ensureGeofence();
     const rows = await sql`
-      SELECT s.id, s.code, s.map_number, s.created_at, s.is_active,
-             c.name as congregation_name, c.id as congregation_id
+      SELECT s.id, s.code, s.map_number, s.created_at, s.expires_at, s.is_active,
+             c.name as congregation_name, c.id as congregation_id, c.geofence_tolerance_m, m.id as map_id
       FROM sessions s
       JOIN congregations c ON c.id = s.congregation_id
+      LEFT JOIN territory_maps m ON m.congregation_id = s.congregation_id AND m.map_number = s.map_number
       WHERE s.code = ${code} AND s.is_active = true AND s.expires_at > NOW()
       LIMIT 1
     `;
     if (!rows.length) return res.status(404).json({ error: 'Session not found or expired' });
-    return res.status(200).json(rows[0]);
+    const s = rows[0];
+    const current = await getParticipantFromRequest(req);
+    const role: ParticipantPayload['role'] = current?.sub === s.id && current?.role === 'overseer' ? 'overseer' : 'publisher';
+    const token = await signParticipantToken(
+      { sub: s.id, code: s.code, congregation_id: s.congregation_id, role },
+      s.expires_at,
+    );
+    return res.status(200).json({ ...s, role, token });
   }
 
   if (req.method === 'DELETE') {
-    const session = await sql`SELECT id FROM sessions WHERE code = ${code} AND is_active = true LIMIT 1`;
-    if (!session.length) return res.status(404).json({ error: 'Session not found' });
-    const addresses = await sql`
-      SELECT * FROM not_at_home_addresses WHERE session_id = ${session[0].id}
-      ORDER BY block_number, recorded_at
-    `;
-    await sql`UPDATE sessions SET is_active = false WHERE id = ${session[0].id}`;
-    return res.status(200).json({ addresses });
+    return requireParticipant(async (req2: NextApiRequest, res2: NextApiResponse, participant: ParticipantPayload) => {
+      if (participant.code !== code) return res2.status(403).json({ error: 'Forbidden' });
+      const session = await sql`SELECT id FROM sessions WHERE id = ${participant.sub} AND is_active = true LIMIT 1`;
+      if (!session.length) return res2.status(404).json({ error: 'Session not found' });
+      const addresses = await sql`
+        SELECT * FROM not_at_home_addresses WHERE session_id = ${session[0].id}
+        ORDER BY block_number, recorded_at
+      `;
+      // Stays in the congregation's session archive until its retention period passes
+      await endSession(session[0].id);
+      await publishSessionEvent(session[0].id, 'session_ended');
+      const blocks = await blockSummary(session[0].id, await sessionBlockCount(session[0].id));
+      return res2.status(200).json({ addresses, blocks });
+    }, 'overseer')(req, res);
   }
 
   return res.status(405).end();
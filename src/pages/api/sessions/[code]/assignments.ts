@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { publishSessionEvent } from '../../../../lib/events';
+import { requireParticipant, ParticipantPayload } from '../../../../lib/auth';
+import { assignBlocks, listBlockAssignments, sessionBlockCount, unassignBlocks } from '../../../../lib/session-blocks';
+
+// Block assignments within a session.
+//   GET    — [{ block_number, assignee }]
+//   POST   — overseer: { assignee, blocks: number[] }
+//   DELETE — overseer: { blocks: number[] }
+async function handler(req: NextApiRequest, res: NextApiResponse, participant: ParticipantPayload) {
+  const { code } = req.query as { code: string };
+  if (participant.code !== code) return res.status(403).json({ error: 'Forbidden' });
+
+  if (req.method === 'GET') {
+    return res.status(200).json(await listBlockAssignments(participant.sub));
+  }
+
+  if (req.method !== 'POST' && req.method !== 'DELETE') return res.status(405).end();
+  if (participant.role !== 'overseer') return res.status(403).json({ error: 'Only the group overseer can assign blocks' });
+
+  const { assignee, blocks } = req.body as { assignee?: string; blocks?: number[] };
+  const blockCount = await sessionBlockCount(participant.sub);
+  const valid = Array.isArray(blocks) && blocks.length > 0
+    && blocks.every((b) => Number.isInteger(b) && b >= 1 && (!blockCount || b <= blockCount));
+  if (!valid) return res.status(400).json({ error: 'blocks must be a list of block numbers on this map' });
+
+  if (req.method === 'POST') {
+    if (!assignee?.trim()) return res.status(400).json({ error: 'assignee required' });
+    await assignBlocks(participant.sub, assignee.trim(), blocks!);
+  } else {
+    await unassignBlocks(participant.sub, blocks!);
+  }
+
+  const assignments = await listBlockAssignments(participant.sub);
+  await publishSessionEvent(participant.sub, 'blocks_assigned', { assignments });
+  return res.status(200).json(assignments);
+}
+export default requireParticipant(handler);
@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../../lib/db';
+import { publishSessionEvent } from '../../../../lib/events';
+import { requireParticipant, ParticipantPayload } from '../../../../lib/auth';
+import { listSessionBlocks, sessionBlockCount, setBlockStatus, BlockStatus } from '../../../../lib/session-blocks';
+
+// Block progress for a session.
+//   GET  — started / finished blocks
+//   POST — { block_number, status: started | finished | null, name? }
+async function handler(req: NextApiRequest, res: NextApiResponse, participant: ParticipantPayload) {
+  const { code } = req.query as { code: string };
+  if (participant.code !== code) return res.status(403).json({ error: 'Forbidden' });
+
+  if (req.method === 'GET') {
+    return res.status(200).json(await listSessionBlocks(participant.sub));
+  }
+
+  if (req.method === 'POST') {
+    const { block_number, status, name } = req.body as { block_number?: number; status?: BlockStatus | null; name?: string };
+    if (status != null && status !== 'started' && status !== 'finished') return res.status(400).json({ error: 'Invalid status' });
+    const session = await sql`SELECT id FROM sessions WHERE id = ${participant.sub} AND is_active = true AND expires_at > NOW() LIMIT 1`;
+    if (!session.length) return res.status(404).json({ error: 'Session not found or expired' });
+    const blockCount = await sessionBlockCount(participant.sub);
+    const block = Number(block_number);
+    if (!Number.isInteger(block) || block < 1 || (blockCount && block > blockCount)) {
+      return res.status(400).json({ error: 'Invalid block number' });
+    }
+
+    const row = await setBlockStatus(participant.sub, block, status ?? null, name?.trim() || null);
+    await publishSessionEvent(participant.sub, 'block_updated', row);
+    return res.status(200).json(row);
+  }
+
+  return res.status(405).end();
+}
+export default requireParticipant(handler);
@@ -0,0 +1,119 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../../lib/db';
+import { getCongregationFromRequest, verifyParticipantToken } from '../../../../lib/auth';
+import { ensureSessionEvents, listSessionEvents, latestSessionEventId, SessionEvent } from '../../../../lib/events';
+
+export const config = { maxDuration: 300 };
+
+const POLL_MS = 2000;
+const PING_MS = 15000;
+// Close before the serverless time limit; EventSource reconnects on its own
+// and resumes from the Last-Event-ID header.
+const STREAM_MS = 280000;
+
+type Listener = (events: SessionEvent[]) => void;
+type Tail = { cursor: number; listeners: Set<Listener> };
+
+// One poll of session_events per session on this instance, shared by every
+// stream open on it; it stops once the last stream has closed.
+const tails = new Map<string, Tail>();
+
+function follow(sessionId: string, from: number, listener: Listener) {
+  let tail = tails.get(sessionId);
+  if (!tail) {
+    const t: Tail = { cursor: from, listeners: new Set() };
+    const poll = async () => {
+      if (!t.listeners.size) { tails.delete(sessionId); return; }
+      try {
+        const events = await listSessionEvents(sessionId, t.cursor);
+        if (events.length) {
+          t.cursor = events[events.length - 1].id;
+          t.listeners.forEach((l) => l(events));
+        }
+      } catch (e) {
+        console.error('Session event poll failed:', e);
+      }
+      setTimeout(poll, POLL_MS);
+    };
+    setTimeout(poll, POLL_MS);
+    tails.set(sessionId, t);
+    tail = t;
+  }
+  const t = tail;
+  t.listeners.add(listener);
+  return () => { t.listeners.delete(listener); };
+}
+
+// Server-Sent Events stream of live changes for one session:
+//   address_added / address_deleted, dnc_touched / dnc_deleted,
+//   return_visit_updated, block_updated, blocks_assigned, session_ended
+// EventSource can't send an Authorization header, so the participant token
+// comes as ?token=; the congregation cookie is accepted too.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') return res.status(405).end();
+  const { code, token } = req.query as { code: string; token?: string };
+
+  const session = await sql`
+    SELECT id, congregation_id FROM sessions
+    WHERE code = ${code} AND is_active = true AND expires_at > NOW() LIMIT 1
+  `;
+  if (!session.length) return res.status(404).json({ error: 'Session not found or expired' });
+  const sessionId = session[0].id as string;
+
+  const participant = token ? await verifyParticipantToken(token) : null;
+  const member = participant?.sub === sessionId && participant.code === code;
+  if (!member && (await getCongregationFromRequest(req))?.sub !== session[0].congregation_id) {
+    return res.status(401).json({ error: 'Join the session to continue' });
+  }
+
+  await ensureSessionEvents();
+  const lastHeader = Number(req.headers['last-event-id']);
+  let cursor = Number.isFinite(lastHeader) && lastHeader > 0 ? lastHeader : await latestSessionEventId(sessionId);
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 2000\n\n');
+
+  await new Promise<void>((resolve) => {
+    let done = false;
+    // Events from the shared poll wait here until this stream has caught up
+    let buffered: SessionEvent[] | null = [];
+    const send = (events: SessionEvent[]) => {
+      if (buffered) { buffered.push(...events); return; }
+      for (const ev of events) {
+        if (done || ev.id <= cursor) continue;
+        res.write(`id: ${ev.id}\nevent: ${ev.type}\ndata: ${JSON.stringify(ev.payload)}\n\n`);
+        cursor = ev.id;
+        if (ev.type === 'session_ended') finish();
+      }
+    };
+    const unfollow = follow(sessionId, cursor, send);
+    const ping = setInterval(() => res.write(': ping\n\n'), PING_MS);
+    const timer = setTimeout(finish, STREAM_MS);
+    function finish() {
+      if (done) return;
+      done = true;
+      clearInterval(ping);
+      clearTimeout(timer);
+      unfollow();
+      resolve();
+    }
+    req.on('close', finish);
+
+    // Anything since Last-Event-ID (or since the shared poll last ran)
+    listSessionEvents(sessionId, cursor).then((missed) => {
+      const held = buffered!;
+      buffered = null;
+      send([...missed, ...held].sort((a, b) => a.id - b.id));
+    }, (e) => {
+      console.error('Session event poll failed:', e);
+      finish();
+    });
+  });
+
+  res.end();
+}
@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import sql from '../../../../lib/db';
+import { publishMapEvent } from '../../../../lib/events';
+import { requireParticipant, ParticipantPayload } from '../../../../lib/auth';
+import { listReturnVisits, recordReturnVisitOutcome, RETURN_VISIT_OUTCOMES, ReturnVisitOutcome } from '../../../../lib/return-visits';
+
+// Return visits carried forward from earlier sessions on this session's map.
+//   GET  — the checklist
+//   POST — { id, outcome: contacted | not_home | drop }
+async function handler(req: NextApiRequest, res: NextApiResponse, participant: ParticipantPayload) {
+  const { code } = req.query as { code: string };
+  if (participant.code !== code) return res.status(403).json({ error: 'Forbidden' });
+
+  const session = await sql`
+    SELECT s.congregation_id, s.map_number, m.id AS map_id
+    FROM sessions s
+    JOIN territory_maps m ON m.congregation_id = s.congregation_id AND m.map_number = s.map_number
+    WHERE s.id = ${participant.sub} AND s.is_active = true AND s.expires_at > NOW()
+    LIMIT 1
+  `;
+  if (!session.length) return res.status(404).json({ error: 'Session not found or expired' });
+  const { congregation_id, map_number, map_id } = session[0];
+
+  if (req.method === 'GET') {
+    return res.status(200).json(await listReturnVisits(map_id, participant.sub));
+  }
+
+  if (req.method === 'POST') {
+    const { id, outcome } = req.body as { id?: string; outcome?: ReturnVisitOutcome };
+    if (!id || !outcome || !RETURN_VISIT_OUTCOMES.includes(outcome)) {
+      return res.status(400).json({ error: 'id and a valid outcome are required' });
+    }
+    const visit = await recordReturnVisitOutcome(id, map_id, participant.sub, outcome);
+    if (!visit) return res.status(404).json({ error: 'Return visit not found for this map' });
+    await publishMapEvent(congregation_id, map_number, 'return_visit_updated', visit);
+    return res.status(200).json(visit);
+  }
+
+  return res.status(405).end();
+}
+export default requireParticipant(handler);
@@ -1,15 +1,15 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
+import { requireCongregation, CongregationPayload } from '../../../lib/auth';
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse, congregation: CongregationPayload) {
   if (req.method !== 'GET') return res.status(405).end();
-  const { congregation_id } = req.query as { congregation_id: string };
-  if (!congregation_id) return res.status(400).json({ error: 'congregation_id required' });
   const rows = await sql`
     SELECT id, code, map_number, created_at
     FROM sessions
-    WHERE congregation_id = ${congregation_id} AND is_active = true AND expires_at > NOW()
+    WHERE congregation_id = ${congregation.sub} AND is_active = true AND expires_at > NOW()
     ORDER BY created_at DESC
   `;
   return res.status(200).json(rows);
 }
+export default requireCongregation(handler);
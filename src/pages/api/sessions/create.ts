@@ -1,29 +1,66 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { randomInt } from 'crypto';
 import sql from '../../../lib/db';
+import { signParticipantToken, requireCongregation, CongregationPayload } from '../../../lib/auth';
+import { SESSION_CODE_ALPHABET, SESSION_CODE_LENGTH } from '../../../lib/session-code';
+
+const MAX_ATTEMPTS = 20;
 
 function generateCode(): string {
-  return Math.floor(1000 + Math.random() * 9000).toString();
+  let code = '';
+  for (let i = 0; i < SESSION_CODE_LENGTH; i++) code += SESSION_CODE_ALPHABET[randomInt(SESSION_CODE_ALPHABET.length)];
+  return code;
 }
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+type CreatedSession = { id: string; code: string; map_number: number; created_at: string; expires_at: string };
+
+// Databases created before longer codes still have a shorter sessions.code;
+// widen it only then, so a cold start doesn't rewrite the column every time
+let ensured: Promise<unknown> | null = null;
+function ensureCodeColumn() {
+  if (!ensured) {
+    ensured = (async () => {
+      const cols = await sql`
+        SELECT character_maximum_length AS length FROM information_schema.columns
+        WHERE table_name = 'sessions' AND column_name = 'code'
+      `;
+      if (cols.length && Number(cols[0].length) < 16) {
+        await sql`ALTER TABLE sessions ALTER COLUMN code TYPE VARCHAR(16)`;
+      }
+    })().catch((e) => { ensured = null; throw e; });
+  }
+  return ensured;
+}
+
+async function handler(req: NextApiRequest, res: NextApiResponse, congregation: CongregationPayload) {
   if (req.method !== 'POST') return res.status(405).end();
-  const { congregation_id, map_number } = req.body as { congregation_id: string; map_number: number };
-  if (!congregation_id || !map_number) return res.status(400).json({ error: 'Missing fields' });
+  const { map_number } = req.body as { map_number: number };
+  const congregation_id = congregation.sub;
+  if (!map_number) return res.status(400).json({ error: 'Missing fields' });
 
   const congs = await sql`SELECT id FROM congregations WHERE id = ${congregation_id} AND status = 'active' LIMIT 1`;
   if (!congs.length) return res.status(404).json({ error: 'Congregation not found' });
 
-  let code = generateCode();
-  for (let i = 0; i < 10; i++) {
-    const ex = await sql`SELECT id FROM sessions WHERE code = ${code} AND is_active = true LIMIT 1`;
-    if (!ex.length) break;
-    code = generateCode();
+  // sessions.code is UNIQUE, so a collision just means drawing another code
+  await ensureCodeColumn();
+  let rows: CreatedSession[] = [];
+  for (let i = 0; i < MAX_ATTEMPTS && !rows.length; i++) {
+    rows = await sql`
+      INSERT INTO sessions (code, congregation_id, map_number)
+      VALUES (${generateCode()}, ${congregation_id}, ${map_number})
+      ON CONFLICT (code) DO NOTHING
+      RETURNING id, code, map_number, created_at, expires_at
+    ` as CreatedSession[];
   }
-
-  const rows = await sql`
-    INSERT INTO sessions (code, congregation_id, map_number)
-    VALUES (${code}, ${congregation_id}, ${map_number})
-    RETURNING id, code, map_number, created_at, expires_at
-  `;
-  return res.status(201).json(rows[0]);
+  if (!rows.length) {
+    console.error(`Session code space exhausted after ${MAX_ATTEMPTS} attempts (length ${SESSION_CODE_LENGTH})`);
+    return res.status(503).json({ error: 'Could not allocate a session code — please try again' });
+  }
+  // The creator is the session's overseer
+  const token = await signParticipantToken(
+    { sub: rows[0].id, code: rows[0].code, congregation_id, role: 'overseer' },
+    rows[0].expires_at,
+  );
+  return res.status(201).json({ ...rows[0], role: 'overseer', token });
 }
+export default requireCongregation(handler);
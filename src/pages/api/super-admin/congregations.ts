@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
 import { requireSuperAdmin, AdminPayload } from '../../../lib/auth';
+import { ensurePinHashColumn, generatePin, hashPin } from '../../../lib/pin';
 
 async function handler(req: NextApiRequest, res: NextApiResponse, _admin: AdminPayload) {
   if (req.method === 'GET') {
@@ -16,13 +17,15 @@ async function handler(req: NextApiRequest, res: NextApiResponse, _admin: AdminP
 
   if (req.method === 'POST') {
     const { name, pin_code, contact_email } = req.body;
-    if (!name || !pin_code) return res.status(400).json({ error: 'name and pin_code required' });
+    if (!name) return res.status(400).json({ error: 'name required' });
+    const pin = pin_code?.trim() || generatePin();
+    await ensurePinHashColumn();
     const rows = await sql`
-      INSERT INTO congregations (name, pin_code, contact_email, status)
-      VALUES (${name.trim()}, ${pin_code.trim()}, ${contact_email || null}, 'active')
+      INSERT INTO congregations (name, pin_hash, contact_email, status)
+      VALUES (${name.trim()}, ${await hashPin(pin)}, ${contact_email || null}, 'active')
       RETURNING id, name, status
     `;
-    return res.status(201).json(rows[0]);
+    return res.status(201).json({ ...rows[0], pin_code: pin });
   }
 
   return res.status(405).end();
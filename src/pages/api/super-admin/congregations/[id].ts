@@ -1,20 +1,26 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../../lib/db';
 import { requireSuperAdmin, AdminPayload } from '../../../../lib/auth';
+import { ensurePinHashColumn, hashPin } from '../../../../lib/pin';
 
 async function handler(req: NextApiRequest, res: NextApiResponse, _admin: AdminPayload) {
   const { id } = req.query as { id: string };
 
   if (req.method === 'PUT') {
     const { name, pin_code, status, contact_email, notification_email } = req.body;
+    await ensurePinHashColumn();
+    const pinHash = pin_code?.trim() ? await hashPin(pin_code) : null;
     const rows = await sql`
       UPDATE congregations SET
         name = COALESCE(${name ?? null}, name),
-        pin_code = COALESCE(${pin_code ?? null}, pin_code),
+        pin_hash = COALESCE(${pinHash}, pin_hash),
+        pin_code = CASE WHEN ${pinHash}::text IS NULL THEN pin_code END,
+        pin_version = pin_version + CASE WHEN ${pinHash}::text IS NULL THEN 0 ELSE 1 END,
         status = COALESCE(${status ?? null}, status),
         contact_email = COALESCE(${contact_email ?? null}, contact_email),
         notification_email = COALESCE(${notification_email ?? null}, notification_email)
-      WHERE id = ${id} RETURNING *
+      WHERE id = ${id}
+      RETURNING id, name, status, contact_email, notification_email, created_at
     `;
     return res.status(200).json(rows[0]);
   }
@@ -0,0 +1,20 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireSuperAdmin, AdminPayload } from '../../../lib/auth';
+import { listLockedThrottles, clearThrottle, ThrottleScope } from '../../../lib/rate-limit';
+
+// Accounts and IPs currently locked out after repeated failed logins
+async function handler(req: NextApiRequest, res: NextApiResponse, _admin: AdminPayload) {
+  if (req.method === 'GET') {
+    return res.status(200).json(await listLockedThrottles());
+  }
+
+  if (req.method === 'POST') {
+    const { scope, key } = req.body as { scope?: ThrottleScope; key?: string };
+    if (!scope || !key) return res.status(400).json({ error: 'scope and key required' });
+    await clearThrottle([{ scope, key }]);
+    return res.status(200).json({ success: true });
+  }
+
+  return res.status(405).end();
+}
+export default requireSuperAdmin(handler);
@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import sql from '../../../lib/db';
 import { requireSuperAdmin, AdminPayload } from '../../../lib/auth';
+import { ensurePinHashColumn, generatePin, hashPin } from '../../../lib/pin';
 
 async function handler(req: NextApiRequest, res: NextApiResponse, _admin: AdminPayload) {
   if (req.method === 'GET') {
@@ -10,18 +11,24 @@ async function handler(req: NextApiRequest, res: NextApiResponse, _admin: AdminP
 
   if (req.method === 'POST') {
     const { id, action, pin_code } = req.body as { id: string; action: 'approve' | 'reject'; pin_code?: string };
+    // The PIN is only ever returned here, once, so the super admin can pass it on
+    let issuedPin: string | undefined;
     if (action === 'approve') {
       const reqs = await sql`SELECT * FROM congregation_requests WHERE id = ${id} LIMIT 1`;
       if (!reqs.length) return res.status(404).json({ error: 'Request not found' });
       const r = reqs[0];
-      await sql`
-        INSERT INTO congregations (name, pin_code, contact_email, status)
-        VALUES (${r.name}, ${pin_code || r.pin_code || '0000'}, ${r.contact_email}, 'active')
+      issuedPin = pin_code?.trim() || generatePin();
+      await ensurePinHashColumn();
+      const created = await sql`
+        INSERT INTO congregations (name, pin_hash, contact_email, status)
+        VALUES (${r.name}, ${await hashPin(issuedPin)}, ${r.contact_email}, 'active')
         ON CONFLICT (name) DO NOTHING
+        RETURNING id
       `;
+      if (!created.length) return res.status(409).json({ error: 'A congregation with this name already exists' });
     }
     await sql`UPDATE congregation_requests SET status = ${action === 'approve' ? 'approved' : 'rejected'} WHERE id = ${id}`;
-    return res.status(200).json({ success: true });
+    return res.status(200).json({ success: true, pin_code: issuedPin });
   }
 
   return res.status(405).end();
@@ -1,10 +1,43 @@
 import React, { useState, useEffect, useRef } from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
+import { shareResults, ResultAddress, ResultBlocks } from '../../lib/session-results';
+import { ImageHotspot, hotspotCentre } from '../../lib/map-geometry';
+import { parseCsv } from '../../lib/csv';
 
 interface MapRow { id: string; map_number: number; name: string | null; block_count: number; image_url: string | null; }
 interface DNCEntry { id: string; block_number?: number | null; address: string; note: string | null; last_visit?: string | null; }
-interface Settings { name: string; pin_code: string; notification_email: string | null; }
+interface Settings { name: string; notification_email: string | null; session_retention_days: number; return_visit_retention_days: number; geofence_tolerance_m: number; }
+interface RegisterRow {
+  id: string; map_number: number; name: string | null; assignment_id: string | null; assignee: string | null;
+  checked_out_on: string | null; last_completed_on: string | null; last_session_at: string | null; last_covered_on: string | null;
+}
+interface Assignment { id: string; assignee: string; checked_out_on: string; checked_in_on: string | null; notes: string | null; }
+interface ArchivedSession {
+  id: string; code: string; map_number: number; map_name?: string | null; created_at: string; ended_at: string | null; expires_at: string;
+  purged_at: string | null; is_active: boolean; address_count?: number;
+}
+type DncImportField = 'map_number' | 'block_number' | 'address' | 'last_visit' | 'note' | 'reason';
+type DncImportRow = { row: number; map_number?: number | string; block_number?: number | null; address?: string; last_visit?: string | null; reason?: string };
+interface DncImportState {
+  filename: string;
+  headers: string[];
+  rows: string[][];
+  mapping: Record<DncImportField, number>; // column index, -1 = not in file
+  preview: { would_insert: DncImportRow[]; would_update: DncImportRow[]; unmatched: DncImportRow[]; invalid: DncImportRow[] } | null;
+}
+
+const DNC_IMPORT_FIELDS: Array<{ key: DncImportField; label: string; required?: boolean }> = [
+  { key: 'map_number', label: 'Map Number', required: true },
+  { key: 'address', label: 'Address', required: true },
+  { key: 'block_number', label: 'Block Number' },
+  { key: 'last_visit', label: 'Last Visit' },
+  { key: 'note', label: 'Note' },
+  { key: 'reason', label: 'Reason' },
+];
+
+// YYYY-MM-DD in local time
+const today = () => new Date().toLocaleDateString('en-CA');
 
 export default function CongregationAdmin() {
   const router = useRouter();
@@ -12,8 +45,17 @@ export default function CongregationAdmin() {
   const [maps, setMaps] = useState<MapRow[]>([]);
   const [settings, setSettings] = useState<Settings | null>(null);
   const [loading, setLoading] = useState(true);
-  const [tab, setTab] = useState<'maps' | 'requests' | 'settings' | 'admins'>('maps');
-  const [settingsForm, setSettingsForm] = useState({ pin_code: '', notification_email: '' });
+  const [tab, setTab] = useState<'maps' | 'register' | 'requests' | 'history' | 'settings' | 'admins'>('maps');
+  const [settingsForm, setSettingsForm] = useState({ notification_email: '', session_retention_days: '', return_visit_retention_days: '', geofence_tolerance_m: '' });
+  const [register, setRegister] = useState<RegisterRow[]>([]);
+  const [registerMonths, setRegisterMonths] = useState(0);
+  const [registerMap, setRegisterMap] = useState<RegisterRow | null>(null);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [checkoutForm, setCheckoutForm] = useState({ assignee: '', checked_out_on: '', notes: '' });
+  const [history, setHistory] = useState<ArchivedSession[]>([]);
+  const [historyDetail, setHistoryDetail] = useState<(ArchivedSession & { addresses: ResultAddress[]; blocks: ResultBlocks }) | null>(null);
+  const [newPin, setNewPin] = useState('');
+  const [issuedPin, setIssuedPin] = useState('');
   const [msg, setMsg] = useState('');
   const [admins, setAdmins] = useState<Array<{ id: string; email: string; created_at: string }>>([]);
   const [newAdmin, setNewAdmin] = useState({ email: '', password: '' });
@@ -28,6 +70,13 @@ export default function CongregationAdmin() {
   const [savingMap, setSavingMap] = useState(false);
   const [addingDnc, setAddingDnc] = useState(false);
   const fileRef = useRef<HTMLInputElement>(null);
+  const geoRef = useRef<HTMLInputElement>(null);
+  const [outline, setOutline] = useState<{ boundary: boolean; blocks: number[] } | null>(null);
+  const [savingOutline, setSavingOutline] = useState(false);
+  const [hotspots, setHotspots] = useState<ImageHotspot[]>([]);
+  const [hotspotEdit, setHotspotEdit] = useState(false);
+  const [drawBlock, setDrawBlock] = useState(1);
+  const [drawPoints, setDrawPoints] = useState<Array<[number, number]>>([]);
 
   // Add map modal
   const [addModal, setAddModal] = useState(false);
@@ -37,6 +86,11 @@ export default function CongregationAdmin() {
   const csvRef = useRef<HTMLInputElement>(null);
   const [importingDnc, setImportingDnc] = useState(false);
   const [importMsg, setImportMsg] = useState('');
+  const [dncImport, setDncImport] = useState<DncImportState | null>(null);
+
+  // Territory (KML/GeoJSON) import
+  const territoryRef = useRef<HTMLInputElement>(null);
+  const [importingTerritory, setImportingTerritory] = useState(false);
 
   useEffect(() => {
     const init = async () => {
@@ -74,10 +128,67 @@ export default function CongregationAdmin() {
     if (res.ok) {
       const s = await res.json();
       setSettings(s);
-      setSettingsForm({ pin_code: s.pin_code || '', notification_email: s.notification_email || '' });
+      setSettingsForm({
+        notification_email: s.notification_email || '',
+        session_retention_days: String(s.session_retention_days ?? ''),
+        return_visit_retention_days: String(s.return_visit_retention_days ?? ''),
+        geofence_tolerance_m: String(s.geofence_tolerance_m ?? ''),
+      });
     }
   };
 
+  const loadRegister = async (months = registerMonths) => {
+    const res = await fetch(`/api/maps/register${months ? `?months=${months}` : ''}`);
+    if (res.ok) setRegister(await res.json());
+  };
+
+  const openRegisterMap = async (r: RegisterRow) => {
+    setRegisterMap(r);
+    setAssignments([]);
+    setCheckoutForm({ assignee: '', checked_out_on: today(), notes: '' });
+    const res = await fetch(`/api/maps/${r.id}/assignments`);
+    if (res.ok) setAssignments(await res.json());
+  };
+
+  const checkOut = async () => {
+    if (!registerMap) return;
+    const res = await fetch(`/api/maps/${registerMap.id}/assignments`, {
+      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(checkoutForm),
+    });
+    if (!res.ok) { const d = await res.json(); alert(d.error || 'Could not check out map'); return; }
+    setRegisterMap(null);
+    loadRegister();
+  };
+
+  const checkIn = async (r: RegisterRow) => {
+    if (!confirm(`Check in Map ${r.map_number} from ${r.assignee} as completed today?`)) return;
+    const res = await fetch(`/api/maps/${r.id}/assignments`, {
+      method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ checked_in_on: today() }),
+    });
+    if (!res.ok) { const d = await res.json(); alert(d.error || 'Could not check in map'); return; }
+    setRegisterMap(null);
+    loadRegister();
+  };
+
+  const deleteAssignment = async (id: string) => {
+    if (!registerMap || !confirm('Delete this register entry?')) return;
+    await fetch(`/api/maps/${registerMap.id}/assignments`, {
+      method: 'DELETE', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ assignment_id: id }),
+    });
+    loadRegister();
+    openRegisterMap(registerMap);
+  };
+
+  const loadHistory = async () => {
+    const res = await fetch('/api/congregation-admin/sessions');
+    if (res.ok) setHistory(await res.json());
+  };
+
+  const openHistory = async (s: ArchivedSession) => {
+    const res = await fetch(`/api/congregation-admin/sessions/${s.id}`);
+    if (res.ok) setHistoryDetail(await res.json());
+  };
+
   const loadAdmins = async () => {
     const res = await fetch('/api/congregation-admin/admins');
     if (res.ok) setAdmins(await res.json());
@@ -94,6 +205,76 @@ export default function CongregationAdmin() {
     setDnc([]);
     setDncForm({ address: '', note: '', block: '' });
     loadDnc(m.id);
+    loadOutline(m.id);
+    loadHotspots(m.id);
+  };
+
+  const loadHotspots = async (mapId: string) => {
+    setHotspots([]);
+    setHotspotEdit(false);
+    setDrawPoints([]);
+    const res = await fetch(`/api/maps/${mapId}/hotspots`);
+    if (res.ok) setHotspots(await res.json());
+  };
+
+  const saveHotspots = async (next: ImageHotspot[]) => {
+    if (!detailMap) return false;
+    const res = await fetch(`/api/maps/${detailMap.id}/hotspots`, {
+      method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ hotspots: next }),
+    });
+    if (!res.ok) { const d = await res.json().catch(() => ({})); alert(d.error || 'Could not save hotspots'); return false; }
+    setHotspots(await res.json());
+    return true;
+  };
+
+  // Each click on the image adds a corner of the block being drawn
+  const addHotspotPoint = (e: React.MouseEvent<HTMLDivElement>) => {
+    const r = e.currentTarget.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - r.left) / r.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - r.top) / r.height));
+    setDrawPoints(prev => [...prev, [x, y]]);
+  };
+
+  const saveDrawnHotspot = async () => {
+    if (!detailMap) return;
+    if (drawPoints.length < 3) { alert('Click at least 3 corners of the block on the image.'); return; }
+    const ok = await saveHotspots([...hotspots.filter(h => h.block_number !== drawBlock), { block_number: drawBlock, points: drawPoints }]);
+    if (!ok) return;
+    setDrawPoints([]);
+    // Move on to the next block that has no hotspot yet
+    const done = new Set([...hotspots.map(h => h.block_number), drawBlock]);
+    const next = Array.from({ length: detailMap.block_count }, (_, i) => i + 1).find(n => !done.has(n));
+    if (next) setDrawBlock(next);
+  };
+
+  const loadOutline = async (mapId: string) => {
+    setOutline(null);
+    const res = await fetch(`/api/maps/${mapId}/geometry`);
+    if (!res.ok) return;
+    const fc = await res.json() as { features: Array<{ properties: { boundary?: boolean; block_number?: number } }> };
+    setOutline({
+      boundary: fc.features.some(f => f.properties.boundary),
+      blocks: fc.features.map(f => f.properties.block_number).filter((n): n is number => n != null),
+    });
+  };
+
+  const uploadOutline = async (file: File) => {
+    if (!detailMap) return;
+    setSavingOutline(true);
+    const res = await fetch(`/api/maps/${detailMap.id}/geometry`, {
+      method: 'PUT', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ geojson: await file.text() }),
+    });
+    setSavingOutline(false);
+    if (geoRef.current) geoRef.current.value = '';
+    if (!res.ok) { const d = await res.json().catch(() => ({})); alert(d.error || 'Could not save the map outline'); return; }
+    loadOutline(detailMap.id);
+  };
+
+  const removeOutline = async () => {
+    if (!detailMap || !confirm('Remove the boundary and block outlines from this map?')) return;
+    await fetch(`/api/maps/${detailMap.id}/geometry`, { method: 'DELETE' });
+    loadOutline(detailMap.id);
   };
 
   const openAdd = () => {
@@ -159,6 +340,7 @@ export default function CongregationAdmin() {
       body: JSON.stringify({ address: dncForm.address, note: dncForm.note, block_number: dncForm.block ? parseInt(dncForm.block, 10) : null }),
     });
     if (res.ok) { setDncForm({ address: '', note: '', block: '' }); loadDnc(detailMap.id); }
+    else alert((await res.json().catch(() => ({}))).error || 'Could not add the address');
     setAddingDnc(false);
   };
 
@@ -171,52 +353,110 @@ export default function CongregationAdmin() {
     loadDnc(detailMap.id);
   };
 
-  const importDncCsv = async (file: File) => {
+  // DNC import: read the CSV or Excel file, let the admin map its columns,
+  // preview with a dry run, then commit
+  const importDncFile = async (file: File) => {
     setImportMsg('');
-    const text = await file.text();
-    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
-    if (lines.length < 2) { alert('CSV appears to be empty.'); return; }
-
-    // Match columns by header name: Map Number, Block Number, Address, Date / Last Visit
-    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
-    const col = (match: (h: string) => boolean) => headers.findIndex(match);
-    const mapCol = col(h => h.includes('map'));
-    const blockCol = col(h => h.includes('block'));
-    const addrCol = col(h => h.includes('address'));
-    const dateCol = col(h => h.includes('date') || h.includes('visit'));
-    if (mapCol === -1 || addrCol === -1) {
-      alert('CSV must have "Map Number" and "Address" columns.');
-      return;
+    let headers: string[];
+    let rows: string[][];
+    if (/\.xlsx$/i.test(file.name)) {
+      // Excel workbooks are read server-side
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      let binary = '';
+      for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+      setImportingDnc(true);
+      const res = await fetch('/api/maps/dnc-import', {
+        method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ xlsx_base64: btoa(binary) }),
+      });
+      setImportingDnc(false);
+      const r = await res.json().catch(() => ({}));
+      if (!res.ok) { alert(r.error || 'Could not read the Excel file'); return; }
+      ({ headers, rows } = r as { headers: string[]; rows: string[][] });
+    } else {
+      const parsed = parseCsv(await file.text());
+      headers = (parsed[0] || []).map(h => h.trim());
+      rows = parsed.slice(1);
     }
+    if (!rows.length) { alert('The file appears to be empty.'); return; }
+    // First header matching any test, trying the tests in order of preference
+    const guess = (...tests: Array<(h: string) => boolean>) => {
+      for (const test of tests) {
+        const i = headers.findIndex(h => test(h.toLowerCase()));
+        if (i !== -1) return i;
+      }
+      return -1;
+    };
+    setDncImport({
+      filename: file.name,
+      headers,
+      rows,
+      mapping: {
+        map_number: guess(h => /(map|territory).*(number|no\b|#)/.test(h), h => (h.includes('map') || h.includes('territory')) && !h.includes('name'), h => h === 'sheet'),
+        block_number: guess(h => h.includes('block')),
+        address: guess(h => h.includes('address')),
+        last_visit: guess(h => h.includes('date') || h.includes('visit')),
+        note: guess(h => h.includes('note')),
+        reason: guess(h => h.includes('reason')),
+      },
+      preview: null,
+    });
+  };
 
-    const entries = lines.slice(1).map(line => {
-      const cells = line.split(',').map(c => c.trim());
-      return {
-        map_number: cells[mapCol],
-        block_number: blockCol !== -1 ? cells[blockCol] || null : null,
-        address: cells[addrCol] || '',
-        last_visit: dateCol !== -1 ? cells[dateCol] || null : null,
-      };
-    }).filter(e => e.address && e.map_number);
-    if (!entries.length) { alert('No valid rows found in CSV.'); return; }
+  const dncImportEntries = () => {
+    if (!dncImport) return [];
+    const { mapping: m, rows } = dncImport;
+    const cell = (cells: string[], col: number) => (col === -1 ? '' : (cells[col] ?? '').trim());
+    // Row numbers as seen in a spreadsheet (header is row 1)
+    return rows.map((cells, i) => ({
+      row: i + 2,
+      map_number: cell(cells, m.map_number),
+      block_number: cell(cells, m.block_number) || null,
+      address: cell(cells, m.address),
+      last_visit: cell(cells, m.last_visit) || null,
+      note: cell(cells, m.note) || null,
+      reason: cell(cells, m.reason) || null,
+    }));
+  };
 
+  const runDncImport = async (dryRun: boolean) => {
+    if (!dncImport) return;
+    if (dncImport.mapping.map_number === -1 || dncImport.mapping.address === -1) {
+      alert('Choose the Map Number and Address columns.');
+      return;
+    }
     setImportingDnc(true);
     const res = await fetch('/api/maps/dnc-import', {
       method: 'POST', headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ entries }),
+      body: JSON.stringify({ entries: dncImportEntries(), dry_run: dryRun }),
     });
     setImportingDnc(false);
-    if (res.ok) {
-      const r = await res.json();
-      let summary = `Imported ${r.imported} DNC entr${r.imported === 1 ? 'y' : 'ies'}` +
-        (r.updated ? `, updated ${r.updated} existing` : '') + '.';
-      if (r.unmatched_maps?.length) summary += `\nNo map found for map number(s): ${r.unmatched_maps.join(', ')} — those rows were skipped.`;
-      setImportMsg(summary);
-      if (detailMap) loadDnc(detailMap.id);
-    } else {
-      const d = await res.json().catch(() => ({}));
-      alert(d.error || 'Import failed');
-    }
+    const r = await res.json().catch(() => ({}));
+    if (!res.ok) { alert(r.error || 'Import failed'); return; }
+    if (dryRun) { setDncImport({ ...dncImport, preview: r }); return; }
+
+    let summary = `Imported ${r.imported} DNC entr${r.imported === 1 ? 'y' : 'ies'}` +
+      (r.updated ? `, updated ${r.updated} existing` : '') + '.';
+    if (r.unmatched_maps?.length) summary += `\nNo map found for map number(s): ${r.unmatched_maps.join(', ')} — those rows were skipped.`;
+    if (r.invalid?.length) summary += `\n${r.invalid.length} invalid row${r.invalid.length === 1 ? '' : 's'} skipped.`;
+    setImportMsg(summary);
+    setDncImport(null);
+    if (detailMap) loadDnc(detailMap.id);
+  };
+
+  const importTerritoryFile = async (file: File) => {
+    setImportMsg('');
+    setImportingTerritory(true);
+    const res = await fetch('/api/maps/import', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ filename: file.name, content: await file.text() }),
+    });
+    setImportingTerritory(false);
+    const r = await res.json().catch(() => ({}));
+    if (!res.ok) { alert([r.error || 'Import failed', ...(r.errors || [])].join('\n')); return; }
+    let summary = `Imported ${r.maps.length} map${r.maps.length === 1 ? '' : 's'}: ${r.created} new, ${r.updated} updated.`;
+    if (r.errors?.length) summary += `\nSkipped:\n${r.errors.join('\n')}`;
+    setImportMsg(summary);
+    loadMaps();
   };
 
   const deleteMap = async (id: string) => {
@@ -230,7 +470,19 @@ export default function CongregationAdmin() {
     const res = await fetch('/api/congregation-admin/settings', {
       method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(settingsForm),
     });
-    if (res.ok) { setMsg('Settings saved!'); setTimeout(() => setMsg(''), 3000); }
+    if (res.ok) { setMsg('Settings saved!'); setTimeout(() => setMsg(''), 3000); loadSettings(); }
+    else { const d = await res.json(); alert(d.error || 'Failed to save settings'); }
+  };
+
+  const rotatePin = async () => {
+    if (!confirm('Replace the congregation PIN? Every device logged in with the old PIN is signed out and will need the new one.')) return;
+    const res = await fetch('/api/congregation-admin/rotate-pin', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ pin_code: newPin }),
+    });
+    const data = await res.json();
+    if (!res.ok) return alert(data.error || 'Could not change PIN');
+    setNewPin('');
+    setIssuedPin(data.pin_code);
   };
 
   const addAdmin = async () => {
@@ -266,10 +518,12 @@ export default function CongregationAdmin() {
         </div>
 
         <div style={S.tabs}>
-          {(['maps', 'requests', 'settings', 'admins'] as const).map(t => (
-            <button key={t} style={{ ...S.tab, ...(tab === t ? S.tabActive : {}) }} onClick={() => setTab(t)}>
+          {(['maps', 'register', 'requests', 'history', 'settings', 'admins'] as const).map(t => (
+            <button key={t} style={{ ...S.tab, ...(tab === t ? S.tabActive : {}) }} onClick={() => { setTab(t); if (t === 'history') loadHistory(); if (t === 'register') loadRegister(); }}>
               {t === 'maps' ? '🗺 Maps'
+                : t === 'register' ? '📋 Register'
                 : t === 'requests' ? <>🔔 Requests{pending.length > 0 && <span style={S.badge}>{pending.length}</span>}</>
+                : t === 'history' ? '🕘 History'
                 : t === 'settings' ? '⚙️ Settings' : '👥 Admins'}
             </button>
           ))}
@@ -281,16 +535,37 @@ export default function CongregationAdmin() {
               <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
                 <button style={S.addBtn} onClick={openAdd}>+ Add Map</button>
                 <button style={{ ...S.addBtn, background: '#d97706' }} onClick={() => csvRef.current?.click()} disabled={importingDnc}>
-                  {importingDnc ? 'Importing…' : '⬆ Import DNC CSV'}
+                  {importingDnc ? 'Importing…' : '⬆ Import DNC (CSV/Excel)'}
                 </button>
                 <input
                   ref={csvRef}
                   type="file"
-                  accept=".csv,text/csv"
+                  accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
                   style={{ display: 'none' }}
-                  onChange={e => { const f = e.target.files?.[0]; if (f) importDncCsv(f); e.target.value = ''; }}
+                  onChange={e => { const f = e.target.files?.[0]; if (f) importDncFile(f); e.target.value = ''; }}
+                />
+                <button style={{ ...S.addBtn, background: '#0d9488' }} onClick={() => territoryRef.current?.click()} disabled={importingTerritory}>
+                  {importingTerritory ? 'Importing…' : '🗺 Import KML/GeoJSON'}
+                </button>
+                <input
+                  ref={territoryRef}
+                  type="file"
+                  accept=".kml,.geojson,.json,application/vnd.google-earth.kml+xml,application/geo+json,application/json"
+                  style={{ display: 'none' }}
+                  onChange={e => { const f = e.target.files?.[0]; if (f) importTerritoryFile(f); e.target.value = ''; }}
                 />
               </div>
+              <div style={{ fontSize: 13, color: '#6b7280', margin: '-6px 0 14px' }}>
+                Export outlined maps: <a href="/api/maps/export?format=geojson" style={{ color: '#7c3aed', fontWeight: 600 }}>GeoJSON</a>
+                {' · '}<a href="/api/maps/export?format=kml" style={{ color: '#7c3aed', fontWeight: 600 }}>KML</a>
+                {maps.length > 0 && (
+                  <>
+                    <br />Do Not Call list: <a href="/api/maps/dnc-export" style={{ color: '#7c3aed', fontWeight: 600 }}>Excel</a>
+                    {' · '}<a href="/api/maps/dnc-export?layout=sheets" style={{ color: '#7c3aed', fontWeight: 600 }}>Excel (sheet per map)</a>
+                    {' · '}<a href="/api/maps/cards" target="_blank" rel="noreferrer" style={{ color: '#7c3aed', fontWeight: 600 }}>🖨 Print all territory cards</a>
+                  </>
+                )}
+              </div>
               {importMsg && <div style={{ ...S.success, whiteSpace: 'pre-line' }}>{importMsg}</div>}
               {maps.length === 0
                 ? <p style={S.empty}>No maps yet.</p>
@@ -339,22 +614,119 @@ export default function CongregationAdmin() {
             </>
           )}
 
+          {tab === 'register' && (
+            <>
+              <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
+                <select
+                  style={{ ...S.inp, flex: 1 }}
+                  value={registerMonths}
+                  onChange={e => { const m = Number(e.target.value); setRegisterMonths(m); loadRegister(m); }}
+                >
+                  <option value={0}>All maps</option>
+                  {[3, 4, 6, 12].map(m => <option key={m} value={m}>Not completed in {m} months</option>)}
+                </select>
+                <a style={{ ...S.addBtn, width: 'auto', textDecoration: 'none', textAlign: 'center', whiteSpace: 'nowrap' }} href={`/api/maps/register?format=csv${registerMonths ? `&months=${registerMonths}` : ''}`}>⬇ Export</a>
+              </div>
+              {register.length === 0
+                ? <p style={S.empty}>{registerMonths ? `Every map has been covered in the last ${registerMonths} months.` : 'No maps yet.'}</p>
+                : register.map(r => (
+                  <div key={r.id} style={{ ...S.card, cursor: 'pointer' }} onClick={() => openRegisterMap(r)}>
+                    <div style={{ flex: 1 }}>
+                      <div style={{ fontSize: 15, fontWeight: 700, color: '#111827' }}>Map {r.map_number}{r.name ? ` — ${r.name}` : ''}</div>
+                      <div style={{ fontSize: 13, color: r.assignee ? '#b45309' : '#6b7280', marginTop: 2 }}>
+                        {r.assignee ? `Checked out to ${r.assignee} since ${r.checked_out_on}` : 'Available'}
+                      </div>
+                      <div style={{ fontSize: 12, color: '#9ca3af', marginTop: 2 }}>
+                        Last completed: {r.last_completed_on || 'never'}
+                        {r.last_session_at && ` · Last session: ${new Date(r.last_session_at).toLocaleDateString('en-AU', { day: 'numeric', month: 'short', year: 'numeric' })}`}
+                      </div>
+                    </div>
+                    {r.assignee
+                      ? <button style={{ ...S.delBtn, background: '#f0fdf4', color: '#166534' }} onClick={e => { e.stopPropagation(); checkIn(r); }}>Check in</button>
+                      : <button style={{ ...S.delBtn, background: '#f5f3ff', color: '#7c3aed' }} onClick={e => { e.stopPropagation(); openRegisterMap(r); }}>Check out</button>}
+                  </div>
+                ))
+              }
+            </>
+          )}
+
+          {tab === 'history' && (
+            <>
+              <h3 style={{ margin: '4px 4px 4px' }}>Session History</h3>
+              <p style={{ color: '#6b7280', fontSize: 13, margin: '0 4px 12px' }}>
+                Addresses from ended sessions are kept for {settings?.session_retention_days ?? 30} days, then deleted. Change this in Settings.
+              </p>
+              {history.length === 0
+                ? <p style={S.empty}>No sessions yet.</p>
+                : history.map(h => (
+                  <div key={h.id} style={{ ...S.card, cursor: 'pointer' }} onClick={() => openHistory(h)}>
+                    <div style={{ flex: 1 }}>
+                      <div style={{ fontSize: 15, fontWeight: 700, color: '#111827' }}>
+                        Map {h.map_number}{h.map_name ? ` — ${h.map_name}` : ''}
+                      </div>
+                      <div style={{ fontSize: 13, color: '#6b7280', marginTop: 2 }}>
+                        {new Date(h.created_at).toLocaleString()} · Code {h.code}
+                      </div>
+                    </div>
+                    <div style={{ fontSize: 13, fontWeight: 600, color: h.is_active ? '#16a34a' : h.purged_at ? '#9ca3af' : '#374151', textAlign: 'right' }}>
+                      {h.is_active ? 'In progress' : h.purged_at ? 'Purged' : `${h.address_count} address${h.address_count === 1 ? '' : 'es'}`}
+                    </div>
+                  </div>
+                ))
+              }
+            </>
+          )}
+
           {tab === 'settings' && settings && (
             <div style={{ ...S.card, flexDirection: 'column', alignItems: 'stretch' }}>
               <h3 style={{ margin: '0 0 16px' }}>Congregation Settings</h3>
               {msg && <div style={S.success}>{msg}</div>}
-              <div style={S.field}>
-                <label style={S.lbl}>PIN Code (used by all members to log in)</label>
-                <input style={S.inp} value={settingsForm.pin_code} onChange={e => setSettingsForm({ ...settingsForm, pin_code: e.target.value })} />
-              </div>
               <div style={S.field}>
                 <label style={S.lbl}>Notification Email (receives auto-expiry session data)</label>
                 <input style={S.inp} type="email" value={settingsForm.notification_email} onChange={e => setSettingsForm({ ...settingsForm, notification_email: e.target.value })} />
               </div>
+              <div style={S.field}>
+                <label style={S.lbl}>Keep session history for (days)</label>
+                <input style={S.inp} type="number" min={1} max={365} value={settingsForm.session_retention_days} onChange={e => setSettingsForm({ ...settingsForm, session_retention_days: e.target.value })} />
+              </div>
+              <div style={S.field}>
+                <label style={S.lbl}>Keep open return visits for (days)</label>
+                <input style={S.inp} type="number" min={1} max={730} value={settingsForm.return_visit_retention_days} onChange={e => setSettingsForm({ ...settingsForm, return_visit_retention_days: e.target.value })} />
+                <p style={{ fontSize: 12, color: '#6b7280', margin: '4px 0 0' }}>
+                  Houses still not home are carried to the next session on their map until they haven&apos;t been seen for this long.
+                </p>
+              </div>
+              <div style={S.field}>
+                <label style={S.lbl}>Boundary tolerance (metres)</label>
+                <input style={S.inp} type="number" min={0} max={5000} value={settingsForm.geofence_tolerance_m} onChange={e => setSettingsForm({ ...settingsForm, geofence_tolerance_m: e.target.value })} />
+                <p style={{ fontSize: 12, color: '#6b7280', margin: '4px 0 0' }}>
+                  On maps with a boundary, addresses recorded further than this outside it need the publisher to confirm they are in the right session.
+                </p>
+              </div>
               <button style={S.saveBtn} onClick={saveSettings}>Save Settings</button>
             </div>
           )}
 
+          {tab === 'settings' && settings && (
+            <div style={{ ...S.card, flexDirection: 'column', alignItems: 'stretch' }}>
+              <h3 style={{ margin: '0 0 8px' }}>Congregation PIN</h3>
+              <p style={{ color: '#6b7280', fontSize: 13, margin: '0 0 16px' }}>
+                The PIN is stored encrypted and can&apos;t be shown again. Rotate it to issue a new one.
+              </p>
+              {issuedPin && (
+                <div style={S.success}>
+                  New PIN: <strong style={{ fontSize: 18, letterSpacing: 2 }}>{issuedPin}</strong>
+                  <div style={{ fontSize: 12, marginTop: 4 }}>Write it down and share it with the congregation — it won&apos;t be displayed again.</div>
+                </div>
+              )}
+              <div style={S.field}>
+                <label style={S.lbl}>New PIN (leave blank to generate one)</label>
+                <input style={S.inp} value={newPin} onChange={e => setNewPin(e.target.value)} placeholder="Random 6-digit PIN" />
+              </div>
+              <button style={S.saveBtn} onClick={rotatePin}>Rotate PIN</button>
+            </div>
+          )}
+
           {tab === 'admins' && (
             <>
               <p style={{ color: '#6b7280', fontSize: 13, marginBottom: 12 }}>Up to 3 admins. ({admins.length}/3)</p>
@@ -396,6 +768,154 @@ export default function CongregationAdmin() {
         </div>
       )}
 
+      {/* Territory register for one map */}
+      {registerMap && (
+        <div style={S.overlay} onClick={() => setRegisterMap(null)}>
+          <div style={S.modal} onClick={e => e.stopPropagation()}>
+            <h3 style={{ margin: '0 0 12px' }}>Map {registerMap.map_number}{registerMap.name ? ` — ${registerMap.name}` : ''}</h3>
+            {registerMap.assignee ? (
+              <div style={{ ...S.card, flexDirection: 'column', alignItems: 'stretch', background: '#fffbeb', borderColor: '#fde68a' }}>
+                <div style={{ fontSize: 14 }}>Checked out to <strong>{registerMap.assignee}</strong> on {registerMap.checked_out_on}</div>
+                <button style={{ ...S.saveBtn, background: '#16a34a', marginTop: 10 }} onClick={() => checkIn(registerMap)}>✓ Check in as completed</button>
+              </div>
+            ) : (
+              <>
+                <div style={S.field}><label style={S.lbl}>Assign to (publisher or group)</label><input style={S.inp} value={checkoutForm.assignee} onChange={e => setCheckoutForm({ ...checkoutForm, assignee: e.target.value })} /></div>
+                <div style={S.field}><label style={S.lbl}>Date assigned</label><input style={S.inp} type="date" value={checkoutForm.checked_out_on} onChange={e => setCheckoutForm({ ...checkoutForm, checked_out_on: e.target.value })} /></div>
+                <div style={S.field}><label style={S.lbl}>Notes (optional)</label><input style={S.inp} value={checkoutForm.notes} onChange={e => setCheckoutForm({ ...checkoutForm, notes: e.target.value })} /></div>
+                <button style={S.saveBtn} onClick={checkOut} disabled={!checkoutForm.assignee.trim()}>Check out</button>
+              </>
+            )}
+            <h4 style={{ margin: '20px 0 8px' }}>Coverage history</h4>
+            {assignments.length === 0
+              ? <p style={{ color: '#9ca3af', fontSize: 14, margin: 0 }}>Never assigned.</p>
+              : assignments.map(a => (
+                <div key={a.id} style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '8px 0', borderBottom: '1px solid #f3f4f6', fontSize: 14 }}>
+                  <div style={{ flex: 1 }}>
+                    <strong>{a.assignee}</strong>
+                    <div style={{ fontSize: 12, color: '#6b7280' }}>
+                      {a.checked_out_on} → {a.checked_in_on || 'still out'}{a.notes ? ` · ${a.notes}` : ''}
+                    </div>
+                  </div>
+                  <button style={S.delBtn} onClick={() => deleteAssignment(a.id)}>✕</button>
+                </div>
+              ))
+            }
+            <div style={{ display: 'flex', gap: 10, marginTop: 20 }}>
+              <button style={S.cancelBtn} onClick={() => setRegisterMap(null)}>Close</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Session history detail */}
+      {historyDetail && (
+        <div style={S.overlay} onClick={() => setHistoryDetail(null)}>
+          <div style={S.modal} onClick={e => e.stopPropagation()}>
+            <h3 style={{ margin: '0 0 4px' }}>Map {historyDetail.map_number} — Session {historyDetail.code}</h3>
+            <p style={{ color: '#6b7280', fontSize: 13, margin: '0 0 14px' }}>
+              Started {new Date(historyDetail.created_at).toLocaleString()}
+              {historyDetail.ended_at && <> · Ended {new Date(historyDetail.ended_at).toLocaleString()}</>}
+            </p>
+            <p style={{ color: '#374151', fontSize: 13, margin: '0 0 14px' }}>
+              Blocks completed: <strong>{historyDetail.blocks.completed.join(', ') || 'none'}</strong>
+              {historyDetail.blocks.started.length > 0 && <> · Not finished: <strong>{historyDetail.blocks.started.join(', ')}</strong></>}
+              {' '}· Untouched: <strong>{historyDetail.blocks.untouched.join(', ') || 'none'}</strong>
+            </p>
+            {historyDetail.purged_at
+              ? <p style={S.empty}>Addresses were deleted on {new Date(historyDetail.purged_at).toLocaleDateString()} after the retention period.</p>
+              : historyDetail.addresses.length === 0
+                ? <p style={S.empty}>No addresses recorded.</p>
+                : historyDetail.addresses.map((a, i) => (
+                  <div key={i} style={{ display: 'flex', gap: 8, padding: '6px 0', borderBottom: '1px solid #f3f4f6', fontSize: 14 }}>
+                    <span style={{ color: '#7c3aed', fontWeight: 700, minWidth: 26 }}>B{a.block_number}</span>
+                    <span>{[a.unit_number ? `${a.unit_number}/` : '', a.house_number, a.street_name, a.suburb].filter(Boolean).join(' ')}</span>
+                  </div>
+                ))
+            }
+            <div style={{ display: 'flex', gap: 10, marginTop: 20 }}>
+              <button style={S.cancelBtn} onClick={() => setHistoryDetail(null)}>Close</button>
+              {!historyDetail.purged_at && historyDetail.addresses.length > 0 && (
+                <>
+                  <a style={{ ...S.cancelBtn, textAlign: 'center', textDecoration: 'none', color: '#374151' }} href={`/api/congregation-admin/sessions/${historyDetail.id}?format=csv`}>⬇ CSV</a>
+                  <button style={S.confirmBtn} onClick={() => shareResults(historyDetail.code, historyDetail.map_number, historyDetail.addresses, historyDetail.blocks)}>⬆ Share</button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* DNC import: column mapping and dry-run preview */}
+      {dncImport && (
+        <div style={S.overlay}>
+          <div style={{ ...S.modal, maxHeight: '92vh', overflowY: 'auto' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 }}>
+              <h3 style={{ margin: 0 }}>Import Do Not Calls</h3>
+              <button onClick={() => setDncImport(null)} style={{ background: 'none', border: 'none', fontSize: 22, cursor: 'pointer', color: '#6b7280' }}>✕</button>
+            </div>
+            <p style={{ fontSize: 13, color: '#6b7280', margin: '0 0 14px' }}>{dncImport.filename} — {dncImport.rows.length} row{dncImport.rows.length === 1 ? '' : 's'}</p>
+
+            {!dncImport.preview ? (
+              <>
+                {DNC_IMPORT_FIELDS.map(f => (
+                  <div key={f.key} style={S.field}>
+                    <label style={S.lbl}>{f.label}{f.required && <span style={{ color: '#dc2626' }}> *</span>}</label>
+                    <select
+                      style={S.inp}
+                      value={dncImport.mapping[f.key]}
+                      onChange={e => setDncImport({ ...dncImport, mapping: { ...dncImport.mapping, [f.key]: Number(e.target.value) } })}
+                    >
+                      <option value={-1}>— not in file —</option>
+                      {dncImport.headers.map((h, i) => (
+                        <option key={i} value={i}>{h || `Column ${i + 1}`}{dncImport.rows[0]?.[i] ? ` (e.g. ${dncImport.rows[0][i].slice(0, 30)})` : ''}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <div style={{ display: 'flex', gap: 10, marginTop: 6 }}>
+                  <button style={S.cancelBtn} onClick={() => setDncImport(null)}>Cancel</button>
+                  <button style={S.confirmBtn} onClick={() => runDncImport(true)} disabled={importingDnc}>{importingDnc ? 'Checking…' : 'Preview'}</button>
+                </div>
+              </>
+            ) : (
+              <>
+                {([
+                  ['would_insert', 'New entries', '#166534'],
+                  ['would_update', 'Updates to existing entries', '#1e40af'],
+                  ['unmatched', 'No matching map — skipped', '#b45309'],
+                  ['invalid', 'Invalid — skipped', '#dc2626'],
+                ] as const).map(([key, label, colour]) => {
+                  const list = dncImport.preview![key];
+                  return (
+                    <details key={key} style={{ marginBottom: 10 }} open={list.length > 0 && (key === 'invalid' || key === 'unmatched')}>
+                      <summary style={{ fontSize: 14, fontWeight: 600, color: colour, cursor: list.length ? 'pointer' : 'default' }}>{label}: {list.length}</summary>
+                      {list.slice(0, 100).map(r => (
+                        <div key={`${key}-${r.row}`} style={{ fontSize: 12, color: '#374151', padding: '3px 0 3px 14px', borderBottom: '1px solid #f3f4f6' }}>
+                          <span style={{ color: '#9ca3af' }}>Row {r.row}:</span> Map {r.map_number ?? '?'}{r.block_number != null ? ` · Block ${r.block_number}` : ''} · {r.address || '—'}
+                          {r.reason && <span style={{ color: colour }}> — {r.reason}</span>}
+                        </div>
+                      ))}
+                      {list.length > 100 && <div style={{ fontSize: 12, color: '#9ca3af', paddingLeft: 14 }}>…and {list.length - 100} more</div>}
+                    </details>
+                  );
+                })}
+                <div style={{ display: 'flex', gap: 10, marginTop: 14 }}>
+                  <button style={S.cancelBtn} onClick={() => setDncImport({ ...dncImport, preview: null })}>Back</button>
+                  <button
+                    style={S.confirmBtn}
+                    onClick={() => runDncImport(false)}
+                    disabled={importingDnc || !(dncImport.preview.would_insert.length + dncImport.preview.would_update.length)}
+                  >
+                    {importingDnc ? 'Importing…' : `Import ${dncImport.preview.would_insert.length + dncImport.preview.would_update.length} entries`}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Map detail modal */}
       {detailMap && (
         <div style={S.overlay}>
@@ -407,7 +927,43 @@ export default function CongregationAdmin() {
 
             {/* Map image */}
             <div style={{ marginBottom: 16 }}>
-              {detailMap.image_url
+              {detailMap.image_url && hotspotEdit ? (
+                <>
+                  <div style={{ position: 'relative', cursor: 'crosshair', touchAction: 'manipulation' }} onClick={addHotspotPoint}>
+                    <img src={detailMap.image_url} alt="Map" style={{ width: '100%', borderRadius: 10, display: 'block' }} draggable={false} />
+                    <svg viewBox="0 0 1 1" preserveAspectRatio="none" style={{ position: 'absolute', inset: 0, width: '100%', height: '100%' }}>
+                      {hotspots.map(h => (
+                        <polygon key={h.block_number} points={h.points.map(p => p.join(',')).join(' ')} vectorEffect="non-scaling-stroke"
+                          fill={h.block_number === drawBlock ? 'rgba(234,88,12,0.15)' : 'rgba(124,58,237,0.2)'} stroke={h.block_number === drawBlock ? '#ea580c' : '#7c3aed'} strokeWidth={2} />
+                      ))}
+                      {drawPoints.length > 0 && (
+                        <polygon points={drawPoints.map(p => p.join(',')).join(' ')} vectorEffect="non-scaling-stroke"
+                          fill="rgba(234,88,12,0.3)" stroke="#ea580c" strokeWidth={2} strokeDasharray="4 3" />
+                      )}
+                    </svg>
+                    {hotspots.map(h => {
+                      const [x, y] = hotspotCentre(h.points);
+                      return <span key={h.block_number} style={{ ...S.hotspotLabel, left: `${x * 100}%`, top: `${y * 100}%` }}>{h.block_number}</span>;
+                    })}
+                  </div>
+                  <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginTop: 8, flexWrap: 'wrap' }}>
+                    <select style={{ ...S.inp, width: 'auto', flex: 1 }} value={drawBlock} onChange={e => { setDrawBlock(Number(e.target.value)); setDrawPoints([]); }}>
+                      {Array.from({ length: detailMap.block_count }, (_, i) => i + 1).map(n => (
+                        <option key={n} value={n}>Block {n}{hotspots.some(h => h.block_number === n) ? ' ✓' : ''}</option>
+                      ))}
+                    </select>
+                    <button style={S.smallBtn} onClick={() => setDrawPoints(prev => prev.slice(0, -1))} disabled={!drawPoints.length}>↶ Undo</button>
+                    <button style={{ ...S.smallBtn, background: '#7c3aed', color: '#fff' }} onClick={saveDrawnHotspot}>Save Block {drawBlock}</button>
+                    {hotspots.some(h => h.block_number === drawBlock) && (
+                      <button style={{ ...S.smallBtn, color: '#dc2626' }} onClick={() => saveHotspots(hotspots.filter(h => h.block_number !== drawBlock))}>Remove</button>
+                    )}
+                  </div>
+                  <p style={{ fontSize: 12, color: '#6b7280', margin: '6px 0 0' }}>
+                    Click the corners of block {drawBlock} on the image, then save. {hotspots.length} of {detailMap.block_count} blocks drawn.
+                  </p>
+                  <button style={{ ...S.saveBtn, marginTop: 8, background: '#6b7280' }} onClick={() => { setHotspotEdit(false); setDrawPoints([]); }}>Done</button>
+                </>
+              ) : detailMap.image_url
                 ? <img src={detailMap.image_url} alt="Map" style={{ width: '100%', borderRadius: 10, maxHeight: 200, objectFit: 'cover', display: 'block' }} />
                 : <div style={{ background: '#f3f4f6', borderRadius: 10, height: 120, display: 'flex', alignItems: 'center', justifyContent: 'center', color: '#9ca3af', fontSize: 14 }}>No image uploaded</div>
               }
@@ -415,6 +971,17 @@ export default function CongregationAdmin() {
               <button style={{ ...S.saveBtn, marginTop: 8, background: uploadingImage ? '#a78bfa' : '#7c3aed' }} onClick={() => fileRef.current?.click()} disabled={uploadingImage}>
                 {uploadingImage ? 'Uploading…' : detailMap.image_url ? '📷 Replace Image' : '📷 Upload Image'}
               </button>
+              <a href={`/api/maps/${detailMap.id}/card`} target="_blank" rel="noreferrer" style={{ ...S.saveBtn, display: 'block', marginTop: 8, background: '#fff', color: '#374151', border: '1px solid #d1d5db', textAlign: 'center', boxSizing: 'border-box' }}>
+                🖨 Print Territory Card
+              </a>
+              {detailMap.image_url && !hotspotEdit && (
+                <button style={{ ...S.saveBtn, marginTop: 8, background: '#fff', color: '#7c3aed', border: '1px solid #7c3aed' }} onClick={() => {
+                  setDrawBlock(Array.from({ length: detailMap.block_count }, (_, i) => i + 1).find(n => !hotspots.some(h => h.block_number === n)) ?? 1);
+                  setHotspotEdit(true);
+                }}>
+                  ✏️ Block Hotspots ({hotspots.length}/{detailMap.block_count})
+                </button>
+              )}
             </div>
 
             {/* Map details */}
@@ -424,6 +991,38 @@ export default function CongregationAdmin() {
             {msg && <div style={S.success}>{msg}</div>}
             <button style={{ ...S.saveBtn, marginBottom: 20 }} onClick={saveMapDetails} disabled={savingMap}>{savingMap ? 'Saving…' : 'Save Changes'}</button>
 
+            {/* Boundary and block outlines (GeoJSON) */}
+            <div style={{ borderTop: '1px solid #e5e7eb', paddingTop: 16, marginBottom: 20 }}>
+              <h4 style={{ margin: '0 0 6px', fontSize: 14, color: '#374151' }}>Boundary &amp; Block Outlines</h4>
+              <p style={{ fontSize: 12, color: '#6b7280', margin: '0 0 10px' }}>
+                Upload a GeoJSON FeatureCollection: one polygon per block with a <code>block_number</code> property, plus an optional boundary polygon marked <code>&quot;boundary&quot;: true</code>. Publishers then get an interactive map in the session.
+              </p>
+              {outline && (outline.boundary || outline.blocks.length > 0) ? (
+                <div style={{ fontSize: 13, color: '#374151', marginBottom: 10 }}>
+                  {outline.boundary ? '✓ Boundary' : 'No boundary'} · {outline.blocks.length} of {detailMap.block_count} blocks outlined
+                  {outline.blocks.length > 0 && outline.blocks.length < detailMap.block_count && (
+                    <div style={{ fontSize: 12, color: '#b45309', marginTop: 2 }}>
+                      Missing: {Array.from({ length: detailMap.block_count }, (_, i) => i + 1).filter(n => !outline.blocks.includes(n)).join(', ')}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p style={{ color: '#9ca3af', fontSize: 13, margin: '0 0 10px' }}>No outlines yet.</p>
+              )}
+              <input ref={geoRef} type="file" accept=".geojson,.json,application/geo+json,application/json" style={{ display: 'none' }} onChange={e => e.target.files?.[0] && uploadOutline(e.target.files[0])} />
+              <div style={{ display: 'flex', gap: 8 }}>
+                <button style={{ ...S.saveBtn, flex: 1 }} onClick={() => geoRef.current?.click()} disabled={savingOutline}>
+                  {savingOutline ? 'Saving…' : outline?.boundary || outline?.blocks.length ? '🗺 Replace GeoJSON' : '🗺 Upload GeoJSON'}
+                </button>
+                {(outline?.boundary || !!outline?.blocks.length) && (
+                  <>
+                    <a href={`/api/maps/${detailMap.id}/geometry`} style={{ ...S.saveBtn, flex: 'none', width: 'auto', padding: '12px 14px', background: '#6b7280', textDecoration: 'none', textAlign: 'center' }}>⬇</a>
+                    <button style={{ ...S.saveBtn, flex: 'none', width: 'auto', padding: '12px 14px', background: '#dc2626' }} onClick={removeOutline}>✕</button>
+                  </>
+                )}
+              </div>
+            </div>
+
             {/* DNC section */}
             <div style={{ borderTop: '1px solid #e5e7eb', paddingTop: 16 }}>
               <h4 style={{ margin: '0 0 12px', fontSize: 14, color: '#374151' }}>Do Not Call Addresses ({dnc.length})</h4>
@@ -494,4 +1093,6 @@ const S: Record<string, React.CSSProperties> = {
   cancelBtn: { flex: 1, padding: '12px', background: '#f3f4f6', border: 'none', borderRadius: 10, fontSize: 15, cursor: 'pointer' },
   confirmBtn: { flex: 2, padding: '12px', background: '#7c3aed', color: '#fff', border: 'none', borderRadius: 10, fontSize: 15, fontWeight: 600, cursor: 'pointer' },
   center: { display: 'flex', alignItems: 'center', justifyContent: 'center', minHeight: '100vh' },
+  smallBtn: { padding: '9px 12px', background: '#f3f4f6', border: 'none', borderRadius: 8, fontSize: 13, fontWeight: 600, cursor: 'pointer' },
+  hotspotLabel: { position: 'absolute', transform: 'translate(-50%, -50%)', background: 'rgba(255,255,255,0.85)', borderRadius: 6, padding: '0 5px', fontSize: 12, fontWeight: 700, pointerEvents: 'none' },
 };
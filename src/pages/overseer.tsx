@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
+import { SESSION_CODE_LENGTH, SESSION_CODE_NUMERIC, normalizeSessionCode } from '../lib/session-code';
+import { joinUrl, joinQrDataUrl, printJoinCard } from '../lib/join-card';
 
 interface Session { id: string; code: string; map_number: number; created_at: string; }
 interface Map { id: string; map_number: number; name: string | null; block_count: number; }
@@ -14,23 +16,30 @@ export default function Overseer() {
   const [selectedMap, setSelectedMap] = useState<number | null>(null);
   const [joinCode, setJoinCode] = useState('');
   const [loading, setLoading] = useState(false);
+  const [qrSession, setQrSession] = useState<(Session & { qr: string }) | null>(null);
 
   useEffect(() => {
     const saved = localStorage.getItem('nah_congregation');
     if (!saved) { router.push('/'); return; }
-    const cong = JSON.parse(saved);
-    setCongregation(cong);
-    loadSessions(cong.id);
-    loadMaps(cong.id);
+    setCongregation(JSON.parse(saved));
+    loadSessions();
+    loadMaps();
   }, [router]);
 
-  const loadSessions = async (cid: string) => {
-    const res = await fetch(`/api/sessions/active?congregation_id=${cid}`);
+  // The congregation comes from the login cookie; if it has expired, log in again
+  const relogin = () => {
+    localStorage.removeItem('nah_congregation');
+    router.push('/');
+  };
+
+  const loadSessions = async () => {
+    const res = await fetch('/api/sessions/active');
+    if (res.status === 401) { relogin(); return; }
     if (res.ok) setSessions(await res.json());
   };
 
-  const loadMaps = async (cid: string) => {
-    const res = await fetch(`/api/maps/public?congregation_id=${cid}`);
+  const loadMaps = async () => {
+    const res = await fetch('/api/maps/public');
     if (res.ok) setMaps(await res.json());
   };
 
@@ -40,27 +49,37 @@ export default function Overseer() {
     const res = await fetch('/api/sessions/create', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ congregation_id: congregation.id, map_number: selectedMap }),
+      body: JSON.stringify({ map_number: selectedMap }),
     });
     if (res.ok) {
       const s = await res.json();
+      // Creator's overseer token — the session page needs it to end the session
+      localStorage.setItem(`nah_session_${s.code}`, s.token);
       setShowMapModal(false);
       setSelectedMap(null);
       router.push(`/session/${s.code}`);
+    } else {
+      const d = await res.json().catch(() => ({}));
+      alert(d.error || 'Could not create session');
     }
     setLoading(false);
   };
 
   const joinSession = () => {
-    if (joinCode.trim()) router.push(`/session/${joinCode.trim()}`);
+    const normalized = normalizeSessionCode(joinCode);
+    if (normalized) router.push(`/session/${normalized}`);
   };
 
   const share = (code: string) => {
-    const url = `${window.location.origin}/session/${code}`;
+    const url = joinUrl(code);
     if (navigator.share) navigator.share({ title: 'Join session', url });
     else navigator.clipboard.writeText(url);
   };
 
+  const showQr = async (s: Session) => {
+    setQrSession({ ...s, qr: await joinQrDataUrl(s.code) });
+  };
+
   return (
     <>
       <Head><title>Not At Home — Group Overseer</title></Head>
@@ -85,8 +104,9 @@ export default function Overseer() {
                 value={joinCode}
                 onChange={e => setJoinCode(e.target.value)}
                 onKeyDown={e => e.key === 'Enter' && joinSession()}
-                maxLength={4}
-                inputMode="numeric"
+                maxLength={SESSION_CODE_LENGTH + 2}
+                inputMode={SESSION_CODE_NUMERIC ? 'numeric' : 'text'}
+                autoCapitalize="characters"
               />
               {joinCode && <button style={styles.joinBtn} onClick={joinSession}>Join</button>}
             </div>
@@ -103,6 +123,7 @@ export default function Overseer() {
                     <div style={{ fontSize: 12, color: '#9ca3af', marginTop: 2 }}>🕐 {new Date(s.created_at).toLocaleTimeString()}</div>
                   </div>
                   <div style={{ display: 'flex', gap: 8 }}>
+                    <button style={styles.iconBtn} onClick={() => showQr(s)} title="QR code">▦</button>
                     <button style={styles.iconBtn} onClick={() => share(s.code)} title="Share">⬆</button>
                     <button style={styles.iconBtn} onClick={() => router.push(`/session/${s.code}`)} title="Open">→</button>
                   </div>
@@ -116,7 +137,7 @@ export default function Overseer() {
             <div>
               <p style={{ fontWeight: 700, color: '#b45309', margin: '0 0 4px' }}>Important Notice!</p>
               <p style={{ color: '#78350f', fontSize: 13, margin: 0 }}>
-                All sessions and data are deleted after 24 hours. Be sure to tap "End Session" and share the data before it expires.
+                Sessions close automatically after 24 hours. Be sure to tap "End Session" and share the data — results are then kept in your congregation's session history for a limited time.
               </p>
             </div>
           </div>
@@ -152,6 +173,26 @@ export default function Overseer() {
             </div>
           </div>
         )}
+
+        {qrSession && (
+          <div style={styles.overlay} onClick={() => setQrSession(null)}>
+            <div style={{ ...styles.modal, textAlign: 'center' }} onClick={e => e.stopPropagation()}>
+              <p style={styles.joinLabel}>SCAN TO JOIN</p>
+              <img src={qrSession.qr} alt={`QR code for session ${qrSession.code}`} style={{ width: 260, height: 260, maxWidth: '100%' }} />
+              <div style={{ fontSize: 34, fontWeight: 800, letterSpacing: '0.2em', margin: '8px 0 2px' }}>{qrSession.code}</div>
+              <div style={{ fontSize: 14, color: '#6b7280' }}>📍 Map {qrSession.map_number}</div>
+              <div style={{ display: 'flex', gap: 10, marginTop: 20 }}>
+                <button style={styles.cancelBtn} onClick={() => setQrSession(null)}>Close</button>
+                <button
+                  style={styles.createBtn}
+                  onClick={() => printJoinCard({ code: qrSession.code, mapNumber: qrSession.map_number, congregation: congregation?.name })}
+                >
+                  🖨 Print Join Card
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </>
   );
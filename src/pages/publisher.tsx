@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
+import { SESSION_CODE_LENGTH, SESSION_CODE_NUMERIC, normalizeSessionCode } from '../lib/session-code';
 
 interface OpenSession { id: string; code: string; map_number: number; }
 
@@ -13,14 +14,19 @@ export default function Publisher() {
   useEffect(() => {
     const saved = localStorage.getItem('nah_congregation');
     if (!saved) { router.push('/'); return; }
-    const cong = JSON.parse(saved);
-    setCongregation(cong);
-    fetch(`/api/sessions/active?congregation_id=${cong.id}`)
-      .then(r => r.json()).then(setSessions).catch(() => {});
+    setCongregation(JSON.parse(saved));
+    fetch('/api/sessions/active')
+      .then(r => {
+        // Login cookie expired — log in again
+        if (r.status === 401) { localStorage.removeItem('nah_congregation'); router.push('/'); return []; }
+        return r.json();
+      })
+      .then(setSessions).catch(() => {});
   }, [router]);
 
   const join = (c: string) => {
-    if (c.trim()) router.push(`/session/${c.trim()}`);
+    const normalized = normalizeSessionCode(c);
+    if (normalized) router.push(`/session/${normalized}`);
   };
 
   return (
@@ -34,7 +40,7 @@ export default function Publisher() {
         </div>
 
         <div style={styles.content}>
-          <p style={styles.desc}>Enter the 4-digit session code provided by your group overseer</p>
+          <p style={styles.desc}>Enter the session code provided by your group overseer</p>
 
           <div style={styles.card}>
             <label style={styles.label}><strong>Session Code</strong></label>
@@ -43,9 +49,10 @@ export default function Publisher() {
               style={styles.input}
               value={code}
               onChange={e => setCode(e.target.value)}
-              placeholder="Enter 4-digit code"
-              inputMode="numeric"
-              maxLength={4}
+              placeholder={`Enter ${SESSION_CODE_LENGTH}-${SESSION_CODE_NUMERIC ? 'digit' : 'character'} code`}
+              inputMode={SESSION_CODE_NUMERIC ? 'numeric' : 'text'}
+              autoCapitalize="characters"
+              maxLength={SESSION_CODE_LENGTH + 2}
               onKeyDown={e => e.key === 'Enter' && join(code)}
             />
             <button style={{ ...styles.btn, marginTop: 14 }} onClick={() => join(code)} disabled={!code.trim()}>
@@ -17,7 +17,8 @@ export default function RoleSelection() {
     router.push(role === 'overseer' ? '/overseer' : '/publisher');
   };
 
-  const handleChange = () => {
+  const handleChange = async () => {
+    await fetch('/api/congregation-logout', { method: 'POST' }).catch(() => {});
     localStorage.removeItem('nah_congregation');
     localStorage.removeItem('nah_role');
     router.push('/');
@@ -1,18 +1,69 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
+import { v4 as uuidv4 } from 'uuid';
+import { enqueue, listOutbox, replayOutbox, releaseOutboxItem, removeFromOutbox, isOutboxSupported, OutboxItem } from '../../lib/outbox';
+import { joinQrDataUrl, printJoinCard } from '../../lib/join-card';
+import { shareResults, ResultBlocks } from '../../lib/session-results';
+import { distanceOutside, hotspotCentre } from '../../lib/map-geometry';
+import { addressKey, streetSide } from '../../lib/address';
+import type { BlockShapes, ImageHotspot, PolygonGeometry } from '../../lib/map-geometry';
+import type { TerritoryMapView, BlockLook, MapPin } from '../../lib/territory-map';
 
 interface SessionData {
   id: string; code: string; map_number: number; congregation_name: string; congregation_id: string; created_at: string;
+  map_id: string | null; role: 'overseer' | 'publisher'; token: string; geofence_tolerance_m?: number;
 }
 interface Address {
   id: string; block_number: number; unit_number?: string; house_number: string; street_name: string; suburb?: string; recorded_at: string;
+  latitude?: number | null; longitude?: number | null;
 }
 interface MapData {
   id: string; map_number: number; name: string | null; block_count: number; image_url: string | null;
-  dnc: Array<{ id: string; block_number?: number | null; address: string; note?: string; last_visit?: string | null }>;
+  boundary?: PolygonGeometry | null; block_shapes?: BlockShapes | null; image_hotspots?: ImageHotspot[] | null;
+  dnc: Array<{
+    id: string; block_number?: number | null; address: string; note?: string; last_visit?: string | null; latitude?: number | null; longitude?: number | null;
+    unit_number?: string | null; house_number?: string | null; street_name?: string | null; suburb?: string | null; address_key?: string | null;
+  }>;
 }
 type DncEntry = MapData['dnc'][number];
+type Held = NonNullable<OutboxItem['held']>;
+
+// DNC list grouped by block and side of the street (as the share summary
+// groups not-at-homes), each group sorted by street then house number
+function groupDnc(list: DncEntry[]) {
+  const sides = { even: 0, odd: 1 } as Record<string, number>;
+  const sorted = [...list].sort((a, b) =>
+    (a.block_number ?? Infinity) - (b.block_number ?? Infinity)
+    || (sides[streetSide(a.house_number) ?? ''] ?? 2) - (sides[streetSide(b.house_number) ?? ''] ?? 2)
+    || (a.address_key ?? a.address).localeCompare(b.address_key ?? b.address));
+  const groups: Array<{ label: string; entries: DncEntry[] }> = [];
+  for (const d of sorted) {
+    const side = streetSide(d.house_number);
+    const label = `${d.block_number != null ? `Block ${d.block_number}` : 'No block'}${side ? ` · ${side === 'even' ? 'Even' : 'Odd'}` : ''}`;
+    if (groups[groups.length - 1]?.label === label) groups[groups.length - 1].entries.push(d);
+    else groups.push({ label, entries: [d] });
+  }
+  return groups;
+}
+interface ReturnVisit {
+  id: string; block_number: number; unit_number?: string | null; house_number: string; street_name: string; suburb?: string | null;
+  status: 'open' | 'contacted' | 'dropped'; attempts: number; checked: boolean;
+}
+type ReturnVisitOutcome = 'contacted' | 'not_home' | 'drop';
+// The GPS fix an address was captured from (absent for manual entries)
+interface Fix { latitude: number; longitude: number; accuracy: number; }
+interface AddressForm {
+  unit: string; house: string; street: string; suburb: string; dnc: boolean; dncReason: string; dncName: string; fix?: Fix | null;
+  outsideOk?: boolean; // publisher confirmed a fix outside the map boundary
+  dncOk?: boolean; // publisher confirmed recording a Do Not Call address
+}
+interface BlockState { block_number: number; status: 'started' | 'finished' | null; claimed_by: string | null; }
+interface BlockAssignment { block_number: number; assignee: string; }
+
+// "Anna & Ben", "Anna, Ben" and "Anna and Ben" all name two publishers
+const assigneeNames = (assignee: string) =>
+  assignee.split(/\s*(?:&|,|\+|\band\b)\s*/i).map(n => n.trim()).filter(Boolean);
 
 export default function SessionPage() {
   const router = useRouter();
@@ -25,14 +76,31 @@ export default function SessionPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [locating, setLocating] = useState(false);
-  const [confirmModal, setConfirmModal] = useState<{ unit: string; house: string; street: string; suburb: string; dnc: boolean; dncReason: string; dncName: string } | null>(null);
+  const [confirmModal, setConfirmModal] = useState<AddressForm | null>(null);
   const [manualModal, setManualModal] = useState(false);
-  const [manual, setManual] = useState({ unit: '', house: '', street: '', suburb: '', dnc: false, dncReason: '', dncName: '' });
+  const [manual, setManual] = useState<AddressForm>({ unit: '', house: '', street: '', suburb: '', dnc: false, dncReason: '', dncName: '' });
   const [dncSubmitted, setDncSubmitted] = useState(false);
   const [saving, setSaving] = useState(false);
   const [endModal, setEndModal] = useState(false);
   const [endData, setEndData] = useState<Address[] | null>(null);
+  const [endBlocks, setEndBlocks] = useState<ResultBlocks | undefined>(undefined);
   const [isOverseer, setIsOverseer] = useState(false);
+  const [ended, setEnded] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
+  const [joinQr, setJoinQr] = useState<string | null>(null);
+  const [returnVisits, setReturnVisits] = useState<ReturnVisit[]>([]);
+  const [blocks, setBlocks] = useState<Record<number, BlockState>>({});
+  const [assignments, setAssignments] = useState<BlockAssignment[]>([]);
+  const [myName, setMyName] = useState('');
+  const [showAllBlocks, setShowAllBlocks] = useState(false);
+  const [assignModal, setAssignModal] = useState(false);
+  const [assignForm, setAssignForm] = useState<{ assignee: string; blocks: number[] }>({ assignee: '', blocks: [] });
+  // Interactive map, when the admin has outlined this map's blocks
+  const mapEl = useRef<HTMLDivElement>(null);
+  const mapView = useRef<TerritoryMapView | null>(null);
+  const [mapReady, setMapReady] = useState(false);
+  // Idempotency key reused while the same address is re-submitted (double tap, retry)
+  const submitKey = useRef<{ key: string; fingerprint: string } | null>(null);
 
   // DNC tap-to-manage flow
   const [dncModal, setDncModal] = useState<DncEntry | null>(null);
@@ -40,44 +108,290 @@ export default function SessionPage() {
   const [dncPending, setDncPending] = useState<'touch' | 'delete' | null>(null);
   const [dncBusy, setDncBusy] = useState(false);
 
-  const loadAddresses = useCallback(async (sessionId: string) => {
-    const res = await fetch(`/api/addresses?session_id=${sessionId}`);
-    if (res.ok) setAddresses(await res.json());
+  const loadAddresses = useCallback(async (s: SessionData) => {
+    const res = await fetch(`/api/addresses?session_id=${s.id}`, { headers: { Authorization: `Bearer ${s.token}` } }).catch(() => null);
+    if (res?.ok) setAddresses(await res.json());
+  }, []);
+
+  const loadReturnVisits = useCallback(async (s: SessionData) => {
+    const res = await fetch(`/api/sessions/${s.code}/return-visits`, { headers: { Authorization: `Bearer ${s.token}` } }).catch(() => null);
+    if (res?.ok) setReturnVisits(await res.json());
+  }, []);
+
+  const loadBlocks = useCallback(async (s: SessionData) => {
+    const headers = { Authorization: `Bearer ${s.token}` };
+    const [res, aRes] = await Promise.all([
+      fetch(`/api/sessions/${s.code}/blocks`, { headers }).catch(() => null),
+      fetch(`/api/sessions/${s.code}/assignments`, { headers }).catch(() => null),
+    ]);
+    if (res?.ok) {
+      const rows: BlockState[] = await res.json();
+      setBlocks(Object.fromEntries(rows.map(b => [b.block_number, b])));
+    }
+    if (aRes?.ok) setAssignments(await aRes.json());
+  }, []);
+
+  useEffect(() => {
+    setMyName(localStorage.getItem('nah_publisher_name') || '');
   }, []);
 
+  const chooseName = (name: string) => {
+    localStorage.setItem('nah_publisher_name', name);
+    setMyName(name);
+    setShowAllBlocks(false);
+  };
+
+  // Blocks the overseer assigned to this publisher (alone or in a pair)
+  const myBlocks = useMemo(() => myName
+    ? assignments.filter(a => assigneeNames(a.assignee).some(n => n.toLowerCase() === myName.toLowerCase())).map(a => a.block_number)
+    : [], [assignments, myName]);
+
+  // Open on the first of my blocks that isn't finished yet (an existing
+  // selection is kept, so block updates don't move the publisher)
+  useEffect(() => {
+    if (!myBlocks.length) return;
+    setSelectedBlock(prev => prev ?? myBlocks.find(b => blocks[b]?.status !== 'finished') ?? null);
+  }, [myBlocks, blocks]);
+
+  const applyBlock = (b: BlockState) => setBlocks(prev => ({ ...prev, [b.block_number]: b }));
+
+  const upsertReturnVisit = (v: ReturnVisit) =>
+    setReturnVisits(prev => prev.some(x => x.id === v.id) ? prev.map(x => x.id === v.id ? v : x) : [...prev, v]);
+
   useEffect(() => {
     if (!code) return;
-    setIsOverseer(localStorage.getItem('nah_role') === 'overseer');
 
     const init = async () => {
-      const res = await fetch(`/api/sessions/${code}`);
-      if (!res.ok) { setError('Session not found or expired'); setLoading(false); return; }
-      const s: SessionData = await res.json();
+      // Joining issues a participant token; an overseer token held from
+      // creating the session is sent back so it is renewed as overseer.
+      const saved = localStorage.getItem(`nah_session_${code}`);
+      const res = await fetch(`/api/sessions/${code}`, {
+        headers: saved ? { Authorization: `Bearer ${saved}` } : {},
+      }).catch(() => null);
+      // Offline: reopen from the copy kept on the last online visit (the
+      // service worker doesn't cache this response, as it carries the token)
+      const kept = localStorage.getItem(`nah_session_info_${code}`);
+      if (!res && !(saved && kept)) { setError('No connection — open this session once while online to use it offline.'); setLoading(false); return; }
+      if (res && !res.ok) {
+        // Ended since this device last had it open
+        if (res.status === 404 && saved) setEnded(true);
+        else setError('Session not found or expired');
+        setLoading(false);
+        return;
+      }
+      const s: SessionData = res ? await res.json() : { ...JSON.parse(kept!), token: saved };
+      localStorage.setItem(`nah_session_${code}`, s.token);
+      localStorage.setItem(`nah_session_info_${code}`, JSON.stringify({ ...s, token: undefined }));
       setSession(s);
+      setIsOverseer(s.role === 'overseer');
 
       // Load map data
-      const mapsRes = await fetch(`/api/maps/public?congregation_id=${s.congregation_id}`);
-      if (mapsRes.ok) {
-        const maps: MapData[] = await mapsRes.json();
-        const m = maps.find(x => x.map_number === s.map_number);
-        if (m) {
-          const mRes = await fetch(`/api/maps/${m.id}`);
-          if (mRes.ok) setMapData(await mRes.json());
-        }
+      if (s.map_id) {
+        const mRes = await fetch(`/api/maps/${s.map_id}`).catch(() => null);
+        if (mRes?.ok) setMapData(await mRes.json());
       }
 
-      await loadAddresses(s.id);
+      await Promise.all([loadAddresses(s), loadReturnVisits(s), loadBlocks(s)]);
       setLoading(false);
     };
     init();
-  }, [code, loadAddresses]);
+  }, [code, loadAddresses, loadReturnVisits, loadBlocks]);
 
-  // Poll for new addresses every 5 seconds
+  // Live updates over Server-Sent Events. EventSource reconnects by itself and
+  // resumes from the last event it saw, so a dropped stream only matters once
+  // it stays down: then poll every 5 seconds, and reload the full list when
+  // the stream is back. A session that has ended answers 404.
   useEffect(() => {
     if (!session) return;
-    const interval = setInterval(() => loadAddresses(session.id), 5000);
-    return () => clearInterval(interval);
-  }, [session, loadAddresses]);
+    let poll: ReturnType<typeof setInterval> | null = null;
+    let fallback: ReturnType<typeof setTimeout> | null = null;
+    const pollOnce = async () => {
+      const res = await fetch(`/api/sessions/${session.code}`, { headers: { Authorization: `Bearer ${session.token}` } }).catch(() => null);
+      if (res?.status === 404) { stopPolling(); setEnded(true); return; }
+      loadAddresses(session);
+    };
+    const startPolling = () => {
+      if (!poll) poll = setInterval(pollOnce, 5000);
+    };
+    const stopPolling = () => {
+      if (poll) { clearInterval(poll); poll = null; }
+    };
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+      return stopPolling;
+    }
+
+    const es = new EventSource(`/api/sessions/${session.code}/events?token=${encodeURIComponent(session.token)}`);
+    const on = <T,>(type: string, fn: (data: T) => void) =>
+      es.addEventListener(type, e => fn(JSON.parse((e as MessageEvent).data) as T));
+
+    es.onopen = () => {
+      if (fallback) { clearTimeout(fallback); fallback = null; }
+      if (!poll) return;
+      stopPolling();
+      loadAddresses(session); loadReturnVisits(session); loadBlocks(session);
+    };
+    es.onerror = () => {
+      // Closed for good (e.g. 404): poll now; still reconnecting: give it a moment
+      if (es.readyState === EventSource.CLOSED) { pollOnce(); startPolling(); }
+      else if (!fallback && !poll) fallback = setTimeout(() => { fallback = null; startPolling(); }, 10000);
+    };
+    on<Address>('address_added', a => setAddresses(prev => prev.some(x => x.id === a.id)
+      ? prev
+      : [...prev, a].sort((x, y) => x.block_number - y.block_number || x.recorded_at.localeCompare(y.recorded_at))));
+    on<{ id: string }>('address_deleted', ({ id }) => setAddresses(prev => prev.filter(a => a.id !== id)));
+    on<{ id: string; last_visit: string }>('dnc_touched', ({ id, last_visit }) => setMapData(prev => prev && {
+      ...prev, dnc: prev.dnc.map(d => d.id === id ? { ...d, last_visit } : d),
+    }));
+    on<{ id: string }>('dnc_deleted', ({ id }) => setMapData(prev => prev && { ...prev, dnc: prev.dnc.filter(d => d.id !== id) }));
+    on<ReturnVisit>('return_visit_updated', upsertReturnVisit);
+    on<BlockState>('block_updated', applyBlock);
+    on<{ assignments: BlockAssignment[] }>('blocks_assigned', ({ assignments: list }) => setAssignments(list));
+    on('session_ended', () => {
+      es.close();
+      stopPolling();
+      setEnded(true);
+    });
+
+    return () => { es.close(); stopPolling(); if (fallback) clearTimeout(fallback); };
+  }, [session, loadAddresses, loadReturnVisits, loadBlocks]);
+
+  // Build the interactive map once the outlines are known (and again if they
+  // change); follow the publisher's position while it is on screen.
+  const boundary = mapData?.boundary ?? null;
+  const blockShapes = mapData?.block_shapes ?? null;
+  const hasOutline = !!(boundary || blockShapes);
+  useEffect(() => {
+    if (!hasOutline || !mapEl.current) return;
+    let cancelled = false;
+    let watch: number | null = null;
+    import('../../lib/territory-map').then(({ createTerritoryMap }) =>
+      createTerritoryMap(mapEl.current!, { boundary, block_shapes: blockShapes }, setSelectedBlock)
+    ).then(view => {
+      if (cancelled) { view.destroy(); return; }
+      mapView.current = view;
+      setMapReady(true);
+      if ('geolocation' in navigator) {
+        watch = navigator.geolocation.watchPosition(
+          pos => view.setPosition({ latitude: pos.coords.latitude, longitude: pos.coords.longitude, accuracy: pos.coords.accuracy }),
+          () => view.setPosition(null),
+          { enableHighAccuracy: true, maximumAge: 10000 },
+        );
+      }
+    });
+    return () => {
+      cancelled = true;
+      if (watch != null) navigator.geolocation.clearWatch(watch);
+      mapView.current?.destroy();
+      mapView.current = null;
+      setMapReady(false);
+    };
+  }, [boundary, blockShapes, hasOutline]);
+
+  useEffect(() => {
+    if (!mapReady || !mapData) return;
+    const looks: Record<number, BlockLook> = {};
+    for (let n = 1; n <= mapData.block_count; n++) looks[n] = { status: blocks[n]?.status ?? null, selected: selectedBlock === n };
+    mapView.current?.setBlockLooks(looks);
+  }, [mapReady, mapData, blocks, selectedBlock]);
+
+  useEffect(() => {
+    if (!mapReady || !mapData) return;
+    const pins: MapPin[] = [];
+    for (const a of addresses) {
+      if (a.latitude != null && a.longitude != null) {
+        pins.push({ kind: 'address', latitude: a.latitude, longitude: a.longitude, label: `${a.unit_number ? `U${a.unit_number}/` : ''}${a.house_number} ${a.street_name} (Block ${a.block_number})` });
+      }
+    }
+    for (const d of mapData.dnc) {
+      if (d.latitude != null && d.longitude != null) pins.push({ kind: 'dnc', latitude: d.latitude, longitude: d.longitude, label: d.address });
+    }
+    mapView.current?.setPins(pins);
+  }, [mapReady, mapData, addresses]);
+
+  // Replay submissions queued while offline: on load, when the browser comes
+  // back online, and every 30 seconds as a fallback for flaky signal.
+  const refreshOutbox = useCallback(async () => {
+    if (!session || !isOutboxSupported()) return;
+    setOutbox(await listOutbox(session.id));
+  }, [session]);
+
+  const syncOutbox = useCallback(async () => {
+    if (!session || !isOutboxSupported()) return;
+    const sent = await replayOutbox(session.id).catch(() => 0);
+    await refreshOutbox();
+    if (sent) loadAddresses(session);
+  }, [session, loadAddresses, refreshOutbox]);
+
+  useEffect(() => {
+    if (!session || !isOutboxSupported()) return;
+    syncOutbox();
+    window.addEventListener('online', syncOutbox);
+    const retry = setInterval(syncOutbox, 30000);
+    return () => { window.removeEventListener('online', syncOutbox); clearInterval(retry); };
+  }, [session, syncOutbox]);
+
+  const queueOffline = async (item: Omit<OutboxItem, 'id' | 'queued_at' | 'session_id' | 'method'>) => {
+    if (!session || !isOutboxSupported()) return false;
+    try {
+      await enqueue({ ...item, session_id: session.id, method: 'POST' });
+    } catch {
+      return false;
+    }
+    await refreshOutbox();
+    return true;
+  };
+
+  // Queued records the server held back (see outbox.ts): what went wrong, and
+  // what confirming sends with the record
+  const heldMessage = (h: Held) => {
+    if (h.status === 401) return 'Your sign-in to this session expired before this could be sent.';
+    const outside = h.response.outside as { distance_m: number } | undefined;
+    if (outside) return `${h.error} (about ${outside.distance_m} m outside).`;
+    return h.response.do_not_call ? `🚫 ${h.error}. It will be shared for a return visit if you record it.` : h.error;
+  };
+  const heldConfirmation = (h: Held): { label: string; body: Record<string, unknown> } | null => {
+    if (h.status === 401) return { label: 'Sign In & Send', body: {} };
+    if (h.response.outside) return { label: 'Save Anyway', body: { outside_ok: true } };
+    if (h.response.do_not_call) return { label: 'Record Anyway', body: { dnc_ok: true } };
+    return null;
+  };
+
+  // A record that can't be sent is copied out so it can be passed on by hand
+  const copyHeld = async (item: OutboxItem) => {
+    const a = item.body as unknown as Address;
+    const text = item.kind === 'address' && a.house_number
+      ? `Block ${a.block_number}: ${fmtAddr(a)}`
+      : JSON.stringify(item.body);
+    try {
+      await navigator.clipboard.writeText(text);
+      alert('Copied — paste it wherever you need it.');
+    } catch {
+      prompt('Copy this record:', text);
+    }
+  };
+
+  const resolveHeld = async (item: OutboxItem, confirmed: boolean) => {
+    if (!session || !item.held) return;
+    const confirmation = heldConfirmation(item.held);
+    if (!confirmed || !confirmation) {
+      await removeFromOutbox(item.id!);
+    } else if (item.held.status === 401) {
+      // Rejoin for a fresh participant token and send the record with it
+      const res = await fetch(`/api/sessions/${code}`, { headers: { Authorization: `Bearer ${session.token}` } }).catch(() => null);
+      if (!res?.ok) {
+        alert(res ? 'This session has ended — the record can no longer be sent.' : 'No connection. Please try again when you have signal.');
+        return;
+      }
+      const { token } = await res.json() as SessionData;
+      localStorage.setItem(`nah_session_${code}`, token);
+      setSession(prev => prev && { ...prev, token });
+      await releaseOutboxItem(item, {}, { Authorization: `Bearer ${token}` });
+    } else {
+      await releaseOutboxItem(item, confirmation.body);
+    }
+    await syncOutbox();
+  };
 
   const recordLocation = () => {
     if (!selectedBlock) { alert('Please select a block first'); return; }
@@ -86,7 +400,8 @@ export default function SessionPage() {
       async pos => {
         setLocating(false);
         // Reverse geocode server-side (Google when configured, OSM fallback)
-        const { latitude, longitude } = pos.coords;
+        const { latitude, longitude, accuracy } = pos.coords;
+        const fix = { latitude, longitude, accuracy };
         try {
           const r = await fetch(`/api/geocode/reverse?lat=${latitude}&lon=${longitude}`);
           const addr = await r.json();
@@ -95,10 +410,10 @@ export default function SessionPage() {
             house: addr.house || '',
             street: addr.street || '',
             suburb: addr.suburb || '',
-            dnc: false, dncReason: '', dncName: '',
+            dnc: false, dncReason: '', dncName: '', fix,
           });
         } catch {
-          setConfirmModal({ unit: '', house: '', street: '', suburb: '', dnc: false, dncReason: '', dncName: '' });
+          setConfirmModal({ unit: '', house: '', street: '', suburb: '', dnc: false, dncReason: '', dncName: '', fix });
         }
       },
       () => { setLocating(false); alert('Could not get location. Try manually.'); },
@@ -106,54 +421,123 @@ export default function SessionPage() {
     );
   };
 
-  const saveAddress = async (data: { unit: string; house: string; street: string; suburb: string; dnc: boolean; dncReason: string; dncName: string }) => {
+  const saveAddress = async (data: AddressForm) => {
     if (!session || !selectedBlock) return;
     if (data.dnc && (!data.dncReason.trim() || !data.dncName.trim())) {
       alert('Please add a reason and your name for the Do Not Call request.');
       return;
     }
     setSaving(true);
+    const payload = {
+      session_id: session.id,
+      block_number: selectedBlock,
+      unit_number: data.unit || null,
+      house_number: data.house,
+      street_name: data.street,
+      suburb: data.suburb || null,
+      dnc: data.dnc,
+      dnc_reason: data.dnc ? data.dncReason : null,
+      dnc_submitted_by: data.dnc ? data.dncName : null,
+      latitude: data.fix?.latitude ?? null,
+      longitude: data.fix?.longitude ?? null,
+      accuracy_m: data.fix?.accuracy ?? null,
+      location_source: data.fix ? 'gps' : 'manual',
+      outside_ok: data.outsideOk === true,
+      dnc_ok: data.dncOk === true,
+    };
+    const fingerprint = JSON.stringify(payload);
+    if (submitKey.current?.fingerprint !== fingerprint) submitKey.current = { key: uuidv4(), fingerprint };
+    const headers = { Authorization: `Bearer ${session.token}`, 'Idempotency-Key': submitKey.current.key };
+    const resetForms = () => {
+      submitKey.current = null;
+      setConfirmModal(null);
+      setManualModal(false);
+      setManual({ unit: '', house: '', street: '', suburb: '', dnc: false, dncReason: '', dncName: '' });
+    };
+    // No signal: keep it in the outbox and send it once we're back online
+    const saveOffline = async () => {
+      if (!await queueOffline({ kind: data.dnc ? 'dnc_request' : 'address', url: '/api/addresses', headers, body: payload })) {
+        alert('Network error. Please try again.');
+        return;
+      }
+      resetForms();
+      if (data.dnc) alert('No signal — your Do Not Call request has been saved and will be sent when you are back online.');
+    };
     try {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) { await saveOffline(); return; }
       const res = await fetch('/api/addresses', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          session_id: session.id,
-          block_number: selectedBlock,
-          unit_number: data.unit || null,
-          house_number: data.house,
-          street_name: data.street,
-          suburb: data.suburb || null,
-          dnc: data.dnc,
-          dnc_reason: data.dnc ? data.dncReason : null,
-          dnc_submitted_by: data.dnc ? data.dncName : null,
-        }),
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(payload),
       });
       if (res.ok) {
         const body = await res.json().catch(() => ({}));
-        setConfirmModal(null);
-        setManualModal(false);
-        setManual({ unit: '', house: '', street: '', suburb: '', dnc: false, dncReason: '', dncName: '' });
+        resetForms();
         if (data.dnc) {
           // A DNC is a request — it is NOT added to the not-home list or the map
           // until a congregation admin approves it.
           if (body.dnc === 'already_approved') alert('This address is already on the Do Not Call list.');
           else setDncSubmitted(true);
         } else {
-          loadAddresses(session.id);
+          loadAddresses(session);
         }
+      } else if (res.status === 409) {
+        // Outside the map boundary or on the Do Not Call list — the server
+        // wants an explicit confirmation
+        const body = await res.json().catch(() => ({}));
+        if (body.outside && confirm(`${body.error} (about ${body.outside.distance_m} m outside). Save it anyway?`)) {
+          setSaving(false);
+          await saveAddress({ ...data, outsideOk: true });
+          return;
+        }
+        if (body.do_not_call && confirm(`${body.error}. Record it as not at home anyway?`)) {
+          setSaving(false);
+          await saveAddress({ ...data, dncOk: true });
+          return;
+        }
+        if (!body.outside && !body.do_not_call) alert(body.error || 'Could not save. Please try again.');
       } else {
         alert('Could not save. Please try again.');
       }
     } catch {
-      alert('Network error. Please try again.');
+      await saveOffline();
     } finally {
       setSaving(false);
     }
   };
 
+  // The approved DNC a form's address matches, if any
+  const dncMatch = (data: AddressForm) => {
+    if (!mapData || !data.house.trim() || !data.street.trim()) return null;
+    const key = addressKey({ unit_number: data.unit, house_number: data.house, street_name: data.street });
+    return mapData.dnc.find(d => d.address_key === key) || null;
+  };
+  // Warning for a form at a DNC address; saving needs the override ticked
+  const dncWarning = (data: AddressForm, setOk: (ok: boolean) => void) => {
+    const d = dncMatch(data);
+    return d && (
+      <div style={styles.dncWarn}>
+        🚫 This address is on the Do Not Call list{d.last_visit ? ` — last visit ${d.last_visit}` : ''}. It will be shared for a return visit if you save it.
+        <label style={styles.dncOverride}>
+          <input type="checkbox" checked={!!data.dncOk} onChange={e => setOk(e.target.checked)} />
+          Record it as not at home anyway
+        </label>
+      </div>
+    );
+  };
+  const dncBlocked = (data: AddressForm) => !data.dnc && !data.dncOk && !!dncMatch(data);
+
+  // Metres a GPS fix lies beyond the map boundary, when more than the
+  // congregation's tolerance (0 = fine, no boundary or no fix)
+  const outsideBy = (fix?: Fix | null) => {
+    if (!fix || !mapData?.boundary) return 0;
+    const d = distanceOutside(mapData.boundary, fix.latitude, fix.longitude);
+    return d > (session?.geofence_tolerance_m ?? 100) ? Math.round(d) : 0;
+  };
+
   const deleteAddress = async (id: string) => {
-    await fetch(`/api/addresses/${id}`, { method: 'DELETE' });
+    if (!session) return;
+    await fetch(`/api/addresses/${id}`, { method: 'DELETE', headers: { Authorization: `Bearer ${session.token}` } });
     setAddresses(prev => prev.filter(a => a.id !== id));
   };
 
@@ -172,54 +556,113 @@ export default function SessionPage() {
   const runDncAction = async () => {
     if (!dncModal || !dncPending || !session) return;
     setDncBusy(true);
+    const body = { session_id: session.id, dnc_id: dncModal.id, action: dncPending };
+    const headers = { Authorization: `Bearer ${session.token}` };
     const res = await fetch('/api/maps/dnc-action', {
-      method: 'POST', headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ session_id: session.id, dnc_id: dncModal.id, action: dncPending }),
-    });
+      method: 'POST', headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    }).catch(() => null);
     setDncBusy(false);
-    if (res.ok) {
+    if (!res && await queueOffline({ kind: 'dnc_action', url: '/api/maps/dnc-action', headers, body })) {
+      // Reflect the change locally until the queued action is replayed
+      const id = dncModal.id;
+      const lastVisit = new Date().toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+      setMapData(prev => prev && {
+        ...prev,
+        dnc: dncPending === 'delete' ? prev.dnc.filter(d => d.id !== id) : prev.dnc.map(d => d.id === id ? { ...d, last_visit: lastVisit } : d),
+      });
+      closeDnc();
+    } else if (res?.ok) {
       closeDnc();
       if (mapData) {
-        const mRes = await fetch(`/api/maps/${mapData.id}`);
-        if (mRes.ok) setMapData(await mRes.json());
+        // Only the DNC list changed; keeping the outlines' identity keeps the map as it is
+        const mRes = await fetch(`/api/maps/${mapData.id}`).catch(() => null);
+        if (mRes?.ok) {
+          const { dnc } = await mRes.json() as MapData;
+          setMapData(prev => prev && { ...prev, dnc });
+        }
       }
     } else {
       alert('Could not complete the request. Please try again.');
     }
   };
 
-  const endSession = async () => {
+  const markReturnVisit = async (rv: ReturnVisit, outcome: ReturnVisitOutcome) => {
     if (!session) return;
-    const res = await fetch(`/api/sessions/${code}`, { method: 'DELETE' });
-    if (res.ok) {
-      const { addresses: finalAddresses } = await res.json();
-      setEndData(finalAddresses);
+    const url = `/api/sessions/${session.code}/return-visits`;
+    const headers = { Authorization: `Bearer ${session.token}` };
+    const body = { id: rv.id, outcome };
+    const res = await fetch(url, {
+      method: 'POST', headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    }).catch(() => null);
+    if (res?.ok) {
+      upsertReturnVisit(await res.json());
+    } else if (!res && await queueOffline({ kind: 'return_visit', url, headers, body })) {
+      // Reflect the outcome locally until the queued update is replayed
+      upsertReturnVisit({
+        ...rv,
+        checked: true,
+        status: outcome === 'contacted' ? 'contacted' : outcome === 'drop' ? 'dropped' : 'open',
+        attempts: outcome === 'not_home' && !rv.checked ? rv.attempts + 1 : rv.attempts,
+      });
+    } else {
+      alert('Could not update the return visit. Please try again.');
+    }
+  };
+
+  // Started blocks are claimed under the publisher's name, asked for once per device
+  const publisherName = () => {
+    let name = localStorage.getItem('nah_publisher_name') || '';
+    if (!name) {
+      name = (window.prompt('Your name (shown to others working this map)') || '').trim();
+      if (name) chooseName(name);
+    }
+    return name;
+  };
+
+  const setBlockStatus = async (block: number, status: BlockState['status']) => {
+    if (!session) return;
+    const url = `/api/sessions/${session.code}/blocks`;
+    const headers = { Authorization: `Bearer ${session.token}` };
+    const body = { block_number: block, status, name: status === 'started' ? publisherName() : undefined };
+    const res = await fetch(url, {
+      method: 'POST', headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    }).catch(() => null);
+    if (res?.ok) {
+      applyBlock(await res.json());
+    } else if (!res && await queueOffline({ kind: 'block_status', url, headers, body })) {
+      applyBlock({ block_number: block, status, claimed_by: body.name || blocks[block]?.claimed_by || null });
+    } else {
+      alert('Could not update the block. Please try again.');
     }
   };
 
-  const shareResults = (addrs: Address[]) => {
-    const byBlock: Record<number, Address[]> = {};
-    for (const a of addrs) {
-      if (!byBlock[a.block_number]) byBlock[a.block_number] = [];
-      byBlock[a.block_number].push(a);
+  const saveAssignment = async (method: 'POST' | 'DELETE', body: { assignee?: string; blocks: number[] }) => {
+    if (!session) return;
+    const res = await fetch(`/api/sessions/${session.code}/assignments`, {
+      method, headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${session.token}` },
+      body: JSON.stringify(body),
+    }).catch(() => null);
+    if (!res) { alert('No connection — try again when you have signal.'); return; }
+    const data = await res.json();
+    if (!res.ok) { alert(data.error || 'Could not save the assignment.'); return; }
+    setAssignments(data);
+    setAssignForm({ assignee: '', blocks: [] });
+  };
+
+  const endSession = async () => {
+    if (!session) return;
+    const res = await fetch(`/api/sessions/${code}`, { method: 'DELETE', headers: { Authorization: `Bearer ${session.token}` } });
+    if (res.ok) {
+      const { addresses: finalAddresses, blocks: blockResults } = await res.json();
+      setEndBlocks(blockResults);
+      setEndData(finalAddresses);
     }
-    const fmt = (a: Address) => [a.unit_number ? `Unit ${a.unit_number}/` : '', a.house_number, a.street_name, a.suburb].filter(Boolean).join(' ');
-    // House numbers may have a letter suffix (e.g. 42A) — sort/group by the leading digits
-    const houseNum = (a: Address) => parseInt(a.house_number, 10) || 0;
-    const byHouse = (a: Address, b: Address) => houseNum(a) - houseNum(b) || a.house_number.localeCompare(b.house_number);
-    const lines = Object.entries(byBlock).sort(([a], [b]) => Number(a) - Number(b)).map(([block, arr]) => {
-      const evens = arr.filter(a => houseNum(a) % 2 === 0).sort(byHouse);
-      const odds  = arr.filter(a => houseNum(a) % 2 !== 0).sort(byHouse);
-      const evenLines = evens.length ? 'Even:\n' + evens.map(a => `  • ${fmt(a)}`).join('\n') : 'Even: None';
-      const oddLines  = odds.length  ? 'Odd:\n'  + odds.map(a  => `  • ${fmt(a)}`).join('\n') : 'Odd: None';
-      return `BLOCK ${block}:\n${evenLines}\n${oddLines}`;
-    }).join('\n\n');
-    const text = `Not At Home — Session ${code} | Map ${session?.map_number}\n\n${lines || 'No addresses recorded.'}`;
-    if (navigator.share) navigator.share({ title: 'Not At Home Results', text });
-    else navigator.clipboard.writeText(text).then(() => alert('Copied to clipboard!'));
   };
 
-  const fmtAddr = (a: Address) => [a.unit_number ? `U${a.unit_number}/` : '', a.house_number, a.street_name].filter(Boolean).join(' ');
+  const fmtAddr = (a: { unit_number?: string | null; house_number: string; street_name: string }) => [a.unit_number ? `U${a.unit_number}/` : '', a.house_number, a.street_name].filter(Boolean).join(' ');
 
   if (loading) return <div style={styles.center}><p>Loading session…</p></div>;
   if (error) return <div style={styles.center}><p style={{ color: '#dc2626' }}>{error}</p><a href="/" style={styles.link}>Go home</a></div>;
@@ -235,8 +678,15 @@ export default function SessionPage() {
           <div style={{ fontSize: 40, marginBottom: 8 }}>✅</div>
           <h2 style={{ margin: 0 }}>Session Complete</h2>
           <p style={{ color: '#6b7280' }}>{endData.length} addresses recorded</p>
+          {endBlocks && (
+            <div style={{ textAlign: 'left', fontSize: 14, color: '#374151', background: '#f9fafb', borderRadius: 10, padding: '10px 14px' }}>
+              <div>✅ Completed: <strong>{endBlocks.completed.join(', ') || 'None'}</strong></div>
+              <div>🟡 Started, not finished: <strong>{endBlocks.started.join(', ') || 'None'}</strong></div>
+              <div>⬜ Untouched: <strong>{endBlocks.untouched.join(', ') || 'None'}</strong></div>
+            </div>
+          )}
         </div>
-        <button style={{ ...styles.btn, background: '#10b981', marginBottom: 12 }} onClick={() => shareResults(endData)}>
+        <button style={{ ...styles.btn, background: '#10b981', marginBottom: 12 }} onClick={() => shareResults(code, session?.map_number, endData, endBlocks)}>
           ⬆ Share Results
         </button>
         <button style={{ ...styles.btn, background: '#6b7280' }} onClick={() => router.push('/overseer')}>
@@ -246,6 +696,15 @@ export default function SessionPage() {
     </div>
   );
 
+  // Ended by someone else while this page was open
+  if (ended) return (
+    <div style={styles.center}>
+      <p style={{ fontSize: 40, margin: 0 }}>✅</p>
+      <p style={{ color: '#374151', margin: 0 }}>Session {code} has been ended by the group overseer.</p>
+      <a href="/role-selection" style={styles.link}>Back to home</a>
+    </div>
+  );
+
   return (
     <>
       <Head><title>Session {code} — Not At Home</title></Head>
@@ -253,7 +712,9 @@ export default function SessionPage() {
       <div style={styles.page}>
         <div style={styles.topBar}>
           <span style={styles.appName}>Session: {code}</span>
-          <div style={{ display: 'flex', gap: 8 }}>
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+            {outbox.some(i => !i.held) && <span style={styles.pendingPill}>⏳ {outbox.filter(i => !i.held).length} pending sync</span>}
+            {isOverseer && <button style={styles.smallBtn} onClick={async () => setJoinQr(await joinQrDataUrl(code))}>▦ QR</button>}
             <button style={styles.smallBtn} onClick={() => {
               const url = window.location.href;
               if (navigator.share) navigator.share({ url }); else navigator.clipboard.writeText(url);
@@ -267,27 +728,64 @@ export default function SessionPage() {
             <div style={styles.card}>
               <p style={{ fontSize: 12, color: '#6b7280', margin: '0 0 4px' }}>📍 Territory Map {mapData.map_number}</p>
               {mapData.name && <h3 style={{ margin: '0 0 8px' }}>Map {mapData.map_number} — {mapData.name}</h3>}
-              {mapData.image_url && (
-                <img src={mapData.image_url} alt="Territory map" style={{ width: '100%', borderRadius: 8, marginBottom: 10 }} />
+              {hasOutline && (
+                <>
+                  <div ref={mapEl} style={styles.territoryMap} />
+                  <p style={{ fontSize: 11, color: '#6b7280', margin: '0 2px 10px' }}>Tap a block to select it. <span style={{ color: '#2563eb' }}>●</span> not at home · <span style={{ color: '#dc2626' }}>●</span> do not call</p>
+                </>
               )}
+              {mapData.image_url && (mapData.image_hotspots?.length ? (() => {
+                // Hotspots drawn by the admin: tap a block to select it; blocks
+                // with not-at-homes are shaded with their count
+                const counts: Record<number, number> = {};
+                for (const a of addresses) counts[a.block_number] = (counts[a.block_number] || 0) + 1;
+                return (
+                  <div style={{ position: 'relative', marginBottom: 10 }}>
+                    <img src={mapData.image_url} alt="Territory map" style={{ width: '100%', borderRadius: 8, display: 'block' }} />
+                    <svg viewBox="0 0 1 1" preserveAspectRatio="none" style={{ position: 'absolute', inset: 0, width: '100%', height: '100%' }}>
+                      {mapData.image_hotspots.map(h => (
+                        <polygon
+                          key={h.block_number}
+                          points={h.points.map(p => p.join(',')).join(' ')}
+                          vectorEffect="non-scaling-stroke"
+                          fill={selectedBlock === h.block_number ? 'rgba(37,99,235,0.35)' : counts[h.block_number] ? 'rgba(245,158,11,0.35)' : 'rgba(255,255,255,0.01)'}
+                          stroke={selectedBlock === h.block_number ? '#2563eb' : counts[h.block_number] ? '#d97706' : 'rgba(37,99,235,0.4)'}
+                          strokeWidth={selectedBlock === h.block_number ? 3 : 1.5}
+                          style={{ cursor: 'pointer' }}
+                          onClick={() => setSelectedBlock(h.block_number)}
+                        />
+                      ))}
+                    </svg>
+                    {mapData.image_hotspots.filter(h => counts[h.block_number]).map(h => {
+                      const [x, y] = hotspotCentre(h.points);
+                      return <span key={h.block_number} style={{ ...styles.hotspotCount, left: `${x * 100}%`, top: `${y * 100}%` }}>{counts[h.block_number]}</span>;
+                    })}
+                  </div>
+                );
+              })() : (
+                <img src={mapData.image_url} alt="Territory map" style={{ width: '100%', borderRadius: 8, marginBottom: 10 }} />
+              ))}
               {mapData.dnc.length > 0 && (
                 <div style={{ background: '#fef9c3', borderRadius: 8, padding: '10px 12px', marginTop: 8 }}>
                   <strong style={{ fontSize: 13 }}>Do Not Call:</strong>
                   <table style={{ width: '100%', borderCollapse: 'collapse', marginTop: 6 }}>
                     <thead>
                       <tr>
-                        <th style={styles.dncTh}>Block</th>
                         <th style={{ ...styles.dncTh, textAlign: 'left' }}>Address</th>
                         <th style={{ ...styles.dncTh, textAlign: 'left' }}>Last Visit</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {mapData.dnc.map(d => (
-                        <tr key={d.id} onClick={() => openDnc(d)} style={{ cursor: 'pointer' }}>
-                          <td style={{ ...styles.dncTd, textAlign: 'center' }}>{d.block_number ?? ''}</td>
-                          <td style={styles.dncTd}>{d.address}</td>
-                          <td style={styles.dncTd}>{d.last_visit || ''}</td>
-                        </tr>
+                      {groupDnc(mapData.dnc).map(g => (
+                        <React.Fragment key={g.label}>
+                          <tr><td colSpan={2} style={styles.dncGroup}>{g.label}</td></tr>
+                          {g.entries.map(d => (
+                            <tr key={d.id} onClick={() => openDnc(d)} style={{ cursor: 'pointer' }}>
+                              <td style={styles.dncTd}>{d.address}</td>
+                              <td style={styles.dncTd}>{d.last_visit || ''}</td>
+                            </tr>
+                          ))}
+                        </React.Fragment>
                       ))}
                     </tbody>
                   </table>
@@ -299,22 +797,66 @@ export default function SessionPage() {
 
           {/* Block selector + recorder */}
           <div style={styles.card}>
-            <h3 style={{ margin: '0 0 12px' }}>Select Block</h3>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+              <h3 style={{ margin: 0 }}>{myBlocks.length && !showAllBlocks ? 'Your Blocks' : 'Select Block'}</h3>
+              {isOverseer
+                ? <button style={styles.smallBtn} onClick={() => setAssignModal(true)}>👥 Assign</button>
+                : myBlocks.length > 0 && (
+                  <button style={styles.smallBtn} onClick={() => setShowAllBlocks(v => !v)}>{showAllBlocks ? 'Mine only' : 'All blocks'}</button>
+                )}
+            </div>
+            {!isOverseer && !myName && assignments.length > 0 && (
+              <div style={{ background: '#eff6ff', borderRadius: 10, padding: '10px 12px', marginBottom: 12 }}>
+                <label style={{ ...styles.lbl, color: '#1e40af' }}>Blocks have been assigned — who are you?</label>
+                <select style={styles.inp} value="" onChange={e => e.target.value && chooseName(e.target.value)}>
+                  <option value="">Choose your name…</option>
+                  {Array.from(new Set(assignments.flatMap(a => assigneeNames(a.assignee)))).sort().map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </div>
+            )}
             <div style={styles.blockGrid}>
-              {Array.from({ length: mapData?.block_count || 6 }, (_, i) => i + 1).map(n => (
-                <button
-                  key={n}
-                  style={{ ...styles.blockBtn, ...(selectedBlock === n ? styles.blockBtnSel : {}) }}
-                  onClick={() => setSelectedBlock(n)}
-                >
-                  {n}
-                </button>
-              ))}
+              {Array.from({ length: mapData?.block_count || 6 }, (_, i) => i + 1)
+                .filter(n => showAllBlocks || isOverseer || !myBlocks.length || myBlocks.includes(n))
+                .map(n => {
+                  const b = blocks[n];
+                  const assignee = assignments.find(a => a.block_number === n)?.assignee;
+                  return (
+                    <button
+                      key={n}
+                      style={{
+                        ...styles.blockBtn,
+                        ...(b?.status === 'finished' ? styles.blockBtnDone : b?.status === 'started' ? styles.blockBtnStarted : {}),
+                        ...(selectedBlock === n ? styles.blockBtnSel : {}),
+                      }}
+                      onClick={() => setSelectedBlock(n)}
+                    >
+                      {b?.status === 'finished' ? `✓ ${n}` : n}
+                      {(b?.status === 'started' && b.claimed_by ? b.claimed_by : assignee) && (
+                        <div style={{ fontSize: 10, marginTop: 2, fontWeight: 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {b?.status === 'started' && b.claimed_by ? b.claimed_by : assignee}
+                        </div>
+                      )}
+                    </button>
+                  );
+                })}
             </div>
             <div style={{ background: '#f9fafb', borderRadius: 10, padding: '10px 14px', marginTop: 12, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
               <span style={{ color: '#6b7280', fontSize: 14 }}>Selected Block:</span>
               <strong>{selectedBlock ?? 'None'}</strong>
             </div>
+            {selectedBlock != null && (() => {
+              const b = blocks[selectedBlock];
+              return (
+                <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center' }}>
+                  <span style={{ flex: 1, fontSize: 13, color: '#6b7280' }}>
+                    {b?.status === 'finished' ? 'Finished' : b?.status === 'started' ? `Started${b.claimed_by ? ` by ${b.claimed_by}` : ''}` : 'Not started'}
+                  </span>
+                  {!b?.status && <button style={styles.smallBtn} onClick={() => setBlockStatus(selectedBlock, 'started')}>▶ Start</button>}
+                  {b?.status !== 'finished' && <button style={styles.smallBtn} onClick={() => setBlockStatus(selectedBlock, 'finished')}>✓ Finished</button>}
+                  {b?.status && <button style={styles.smallBtn} onClick={() => setBlockStatus(selectedBlock, b.status === 'finished' ? 'started' : null)}>↺ Undo</button>}
+                </div>
+              );
+            })()}
             <div style={{ marginTop: 12 }}>
               <button style={{ ...styles.recordBtn, opacity: locating ? 0.7 : 1 }} onClick={recordLocation} disabled={locating}>
                 {locating ? '📡 Locating…' : '📍 Record Location'}
@@ -325,10 +867,117 @@ export default function SessionPage() {
             </div>
           </div>
 
+          {/* Overseer: progress per assignment */}
+          {isOverseer && assignments.length > 0 && (
+            <div style={styles.card}>
+              <h3 style={{ margin: '0 0 8px' }}>Assignments</h3>
+              {Array.from(new Set(assignments.map(a => a.assignee))).map(name => {
+                const mine = assignments.filter(a => a.assignee === name).map(a => a.block_number);
+                const done = mine.filter(b => blocks[b]?.status === 'finished').length;
+                const started = mine.filter(b => blocks[b]?.status === 'started').length;
+                return (
+                  <div key={name} style={styles.addrRow}>
+                    <div>
+                      <div style={{ fontSize: 14, fontWeight: 600, color: '#111827' }}>{name}</div>
+                      <div style={{ fontSize: 12, color: '#6b7280' }}>
+                        Blocks {mine.join(', ')}{started ? ` · ${started} in progress` : ''}
+                      </div>
+                    </div>
+                    <span style={{ fontSize: 13, fontWeight: 700, color: done === mine.length ? '#16a34a' : '#374151' }}>
+                      {done}/{mine.length} done
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Return visits carried forward from earlier sessions on this map */}
+          {returnVisits.length > 0 && (() => {
+            const shown = returnVisits.filter(v => selectedBlock == null || v.block_number === selectedBlock);
+            const open = returnVisits.filter(v => !v.checked).length;
+            const blocks = Array.from(new Set(shown.map(v => v.block_number))).sort((a, b) => a - b);
+            return (
+              <div style={styles.card}>
+                <h3 style={{ margin: '0 0 4px' }}>🔁 Return Visits</h3>
+                <p style={{ color: '#6b7280', fontSize: 13, margin: '0 0 10px' }}>
+                  Not home last time{selectedBlock != null ? ` — Block ${selectedBlock}` : ''} · {open} left to check
+                </p>
+                {shown.length === 0 && <p style={{ color: '#9ca3af', fontSize: 14, textAlign: 'center', margin: 0 }}>None in this block</p>}
+                {blocks.map(b => (
+                  <div key={b}>
+                    <div style={{ fontSize: 12, fontWeight: 700, color: '#2563eb', margin: '8px 0 2px' }}>BLOCK {b}</div>
+                    {shown.filter(v => v.block_number === b).map(v => {
+                      const result = !v.checked ? null : v.status === 'contacted' ? 'contacted' : v.status === 'dropped' ? 'drop' : 'not_home';
+                      return (
+                        <div key={v.id} style={{ ...styles.addrRow, opacity: v.checked ? 0.6 : 1 }}>
+                          <div>
+                            <span style={{ fontSize: 14, color: '#111827', textDecoration: v.status === 'open' ? 'none' : 'line-through' }}>{fmtAddr(v)}</span>
+                            <div style={{ fontSize: 12, color: '#9ca3af' }}>Not home ×{v.attempts}</div>
+                          </div>
+                          <div style={{ display: 'flex', gap: 4 }}>
+                            {([['contacted', '✓', 'Contacted'], ['not_home', '🚪', 'Still not home'], ['drop', '✕', 'Drop']] as const).map(([o, icon, label]) => (
+                              <button
+                                key={o}
+                                title={label}
+                                style={{ ...styles.rvBtn, ...(result === o ? styles.rvBtnSel : {}) }}
+                                onClick={() => markReturnVisit(v, o)}
+                              >
+                                {icon}
+                              </button>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            );
+          })()}
+
+          {/* Offline records the server refused: confirm, copy out or discard */}
+          {outbox.some(i => i.held) && (
+            <div style={{ ...styles.card, ...styles.heldCard }}>
+              <h3 style={{ margin: '0 0 6px' }}>Needs Your Attention</h3>
+              <p style={{ fontSize: 13, color: '#6b7280', margin: '0 0 10px' }}>These were recorded without signal, but the server would not save them as they are.</p>
+              {outbox.filter(i => i.held).map(i => {
+                const a = i.body as unknown as Address;
+                const confirmation = heldConfirmation(i.held!);
+                return (
+                  <div key={`h${i.id}`} style={styles.heldRow}>
+                    <div>
+                      {a.block_number != null && <span style={styles.blockBadge}>Block {a.block_number}</span>}
+                      <span style={{ fontSize: 14, color: '#111827' }}>{a.house_number ? fmtAddr(a) : 'Queued update'}</span>
+                    </div>
+                    <p style={{ fontSize: 13, color: '#92400e', margin: '6px 0 8px' }}>{heldMessage(i.held!)}</p>
+                    <div style={{ display: 'flex', gap: 8 }}>
+                      <button style={styles.smallBtn} onClick={() => resolveHeld(i, false)}>Discard</button>
+                      {!confirmation && <button style={styles.smallBtn} onClick={() => copyHeld(i)}>Copy</button>}
+                      {confirmation && <button style={{ ...styles.smallBtn, background: '#d97706', color: '#fff' }} onClick={() => resolveHeld(i, true)}>{confirmation.label}</button>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {/* Address list */}
           <div style={styles.card}>
             <h3 style={{ margin: '0 0 12px' }}>Not Home List</h3>
-            {addresses.length === 0
+            {outbox.filter(i => i.kind === 'address' && !i.held).map(i => {
+              const a = i.body as unknown as Address;
+              return (
+                <div key={`q${i.id}`} style={{ ...styles.addrRow, opacity: 0.6 }}>
+                  <div>
+                    <span style={styles.blockBadge}>Block {a.block_number}</span>
+                    <span style={{ fontSize: 14, color: '#111827' }}>{fmtAddr(a)}</span>
+                  </div>
+                  <span style={{ fontSize: 12, color: '#9ca3af', padding: '4px 8px' }} title="Waiting for signal">⏳</span>
+                </div>
+              );
+            })}
+            {addresses.length === 0 && !outbox.some(i => i.kind === 'address' && !i.held)
               ? <p style={{ color: '#9ca3af', fontSize: 14, textAlign: 'center', margin: 0 }}>No addresses yet</p>
               : addresses.map(a => (
                 <div key={a.id} style={styles.addrRow}>
@@ -390,10 +1039,20 @@ export default function SessionPage() {
                   <input style={styles.inp} value={confirmModal.dncName} onChange={e => setConfirmModal({ ...confirmModal, dncName: e.target.value })} placeholder="Publisher name" /></div>
               </div>
             )}
+            {!confirmModal.dnc && dncWarning(confirmModal, ok => setConfirmModal({ ...confirmModal, dncOk: ok }))}
+            {outsideBy(confirmModal.fix) > 0 && (
+              <div style={styles.outsideWarn}>
+                ⚠️ This address appears to be outside Map {mapData?.map_number} (about {outsideBy(confirmModal.fix)} m away). Check you are in the right session before saving.
+              </div>
+            )}
             <div style={{ display: 'flex', gap: 10, marginTop: 20 }}>
               <button style={styles.cancelBtn} onClick={() => setConfirmModal(null)} disabled={saving}>Cancel</button>
-              <button style={{ ...styles.confirmBtn, opacity: saving ? 0.85 : 1 }} onClick={() => saveAddress(confirmModal)} disabled={saving}>
-                {saving ? <><span style={styles.spinner} /> Submitting…</> : (confirmModal.dnc ? 'Submit Request' : 'Confirm & Save')}
+              <button
+                style={{ ...styles.confirmBtn, ...(outsideBy(confirmModal.fix) > 0 ? { background: '#d97706' } : {}), opacity: saving ? 0.85 : 1 }}
+                onClick={() => saveAddress({ ...confirmModal, outsideOk: outsideBy(confirmModal.fix) > 0 })}
+                disabled={saving || dncBlocked(confirmModal)}
+              >
+                {saving ? <><span style={styles.spinner} /> Submitting…</> : outsideBy(confirmModal.fix) > 0 ? 'Save Anyway' : (confirmModal.dnc ? 'Submit Request' : 'Confirm & Save')}
               </button>
             </div>
           </div>
@@ -427,9 +1086,10 @@ export default function SessionPage() {
                   <input style={styles.inp} value={manual.dncName} onChange={e => setManual({ ...manual, dncName: e.target.value })} placeholder="Publisher name" /></div>
               </div>
             )}
+            {!manual.dnc && dncWarning(manual, ok => setManual({ ...manual, dncOk: ok }))}
             <div style={{ display: 'flex', gap: 10, marginTop: 20 }}>
               <button style={styles.cancelBtn} onClick={() => setManualModal(false)} disabled={saving}>Cancel</button>
-              <button style={{ ...styles.confirmBtn, opacity: saving ? 0.85 : 1 }} onClick={() => saveAddress(manual)} disabled={saving || !manual.house || !manual.street}>
+              <button style={{ ...styles.confirmBtn, opacity: saving ? 0.85 : 1 }} onClick={() => saveAddress(manual)} disabled={saving || !manual.house || !manual.street || dncBlocked(manual)}>
                 {saving ? <><span style={styles.spinner} /> Submitting…</> : (manual.dnc ? 'Submit Request' : 'Save')}
               </button>
             </div>
@@ -453,13 +1113,81 @@ export default function SessionPage() {
         </div>
       )}
 
+      {/* Assign blocks modal */}
+      {assignModal && (
+        <div style={styles.overlay} onClick={() => setAssignModal(false)}>
+          <div style={styles.modal} onClick={e => e.stopPropagation()}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+              <h3 style={{ margin: 0 }}>Assign Blocks</h3>
+              <button style={styles.closeBtn} onClick={() => setAssignModal(false)}>✕</button>
+            </div>
+            <label style={styles.lbl}>Publisher or pair</label>
+            <input style={styles.inp} value={assignForm.assignee} placeholder="e.g. Anna & Ben" onChange={e => setAssignForm({ ...assignForm, assignee: e.target.value })} />
+            <p style={{ fontSize: 13, color: '#6b7280', margin: '12px 0 8px' }}>Tap blocks to select them:</p>
+            <div style={styles.blockGrid}>
+              {Array.from({ length: mapData?.block_count || 6 }, (_, i) => i + 1).map(n => {
+                const assignee = assignments.find(a => a.block_number === n)?.assignee;
+                const picked = assignForm.blocks.includes(n);
+                return (
+                  <button
+                    key={n}
+                    style={{ ...styles.blockBtn, ...(picked ? styles.blockBtnSel : {}) }}
+                    onClick={() => setAssignForm(f => ({ ...f, blocks: picked ? f.blocks.filter(b => b !== n) : [...f.blocks, n] }))}
+                  >
+                    {n}
+                    {assignee && <div style={{ fontSize: 10, marginTop: 2, fontWeight: 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{assignee}</div>}
+                  </button>
+                );
+              })}
+            </div>
+            <div style={{ display: 'flex', gap: 10, marginTop: 16 }}>
+              <button
+                style={{ ...styles.cancelBtn, opacity: assignForm.blocks.length ? 1 : 0.5 }}
+                disabled={!assignForm.blocks.length}
+                onClick={() => saveAssignment('DELETE', { blocks: assignForm.blocks })}
+              >
+                Unassign
+              </button>
+              <button
+                style={{ ...styles.confirmBtn, opacity: assignForm.blocks.length && assignForm.assignee.trim() ? 1 : 0.5 }}
+                disabled={!assignForm.blocks.length || !assignForm.assignee.trim()}
+                onClick={() => saveAssignment('POST', { assignee: assignForm.assignee.trim(), blocks: assignForm.blocks })}
+              >
+                Assign {assignForm.blocks.length || ''} block{assignForm.blocks.length === 1 ? '' : 's'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Join QR modal */}
+      {joinQr && session && (
+        <div style={styles.overlay} onClick={() => setJoinQr(null)}>
+          <div style={{ ...styles.modal, textAlign: 'center' }} onClick={e => e.stopPropagation()}>
+            <p style={{ fontSize: 12, fontWeight: 700, color: '#9ca3af', letterSpacing: '0.08em', margin: '0 0 12px' }}>SCAN TO JOIN</p>
+            <img src={joinQr} alt={`QR code for session ${code}`} style={{ width: 260, height: 260, maxWidth: '100%' }} />
+            <div style={{ fontSize: 34, fontWeight: 800, letterSpacing: '0.2em', margin: '8px 0 2px' }}>{code}</div>
+            <div style={{ fontSize: 14, color: '#6b7280' }}>📍 Map {session.map_number}</div>
+            <div style={{ display: 'flex', gap: 10, marginTop: 20 }}>
+              <button style={styles.cancelBtn} onClick={() => setJoinQr(null)}>Close</button>
+              <button
+                style={styles.confirmBtn}
+                onClick={() => printJoinCard({ code, mapNumber: session.map_number, congregation: session.congregation_name })}
+              >
+                🖨 Print Join Card
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* End session confirm */}
       {endModal && (
         <div style={styles.overlay}>
           <div style={styles.modal}>
             <h3 style={{ margin: '0 0 8px' }}>End Session?</h3>
             <p style={{ color: '#6b7280', fontSize: 14, marginBottom: 20 }}>
-              This will close session <strong>{code}</strong>. All data will be available to share and then deleted.
+              This will close session <strong>{code}</strong>. You can share the results now; your congregation admins can also find them later in the session history.
             </p>
             <div style={{ display: 'flex', gap: 10 }}>
               <button style={styles.cancelBtn} onClick={() => setEndModal(false)}>Cancel</button>
@@ -529,16 +1257,26 @@ const styles: Record<string, React.CSSProperties> = {
   page: { minHeight: '100dvh', background: '#f3f4f6', fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",sans-serif' },
   topBar: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '14px 20px', background: '#fff', borderBottom: '1px solid #e5e7eb', position: 'sticky', top: 0, zIndex: 10 },
   appName: { fontWeight: 700, fontSize: 16 },
+  heldCard: { border: '1px solid #fcd34d', background: '#fffbeb' },
+  heldRow: { padding: '10px 0', borderTop: '1px solid #fde68a' },
+  pendingPill: { background: '#fef3c7', color: '#92400e', borderRadius: 12, padding: '4px 10px', fontSize: 12, fontWeight: 600, whiteSpace: 'nowrap' },
   smallBtn: { background: '#f3f4f6', border: 'none', borderRadius: 8, padding: '8px 14px', fontSize: 14, cursor: 'pointer' },
   content: { padding: '16px', maxWidth: 500, margin: '0 auto' },
   card: { background: '#fff', borderRadius: 14, padding: '16px', border: '1px solid #e5e7eb', marginBottom: 14 },
+  outsideWarn: { background: '#fffbeb', border: '1px solid #fcd34d', borderRadius: 10, padding: '10px 12px', fontSize: 13, color: '#92400e', marginTop: 14 },
+  hotspotCount: { position: 'absolute', transform: 'translate(-50%, -50%)', minWidth: 20, padding: '1px 6px', background: '#d97706', color: '#fff', borderRadius: 10, fontSize: 12, fontWeight: 700, textAlign: 'center', pointerEvents: 'none' },
+  territoryMap: { width: '100%', height: 300, borderRadius: 8, marginBottom: 6, zIndex: 0 },
   blockGrid: { display: 'grid', gridTemplateColumns: 'repeat(4,1fr)', gap: 10 },
   blockBtn: { padding: '18px 4px', background: '#f9fafb', border: '1.5px solid #e5e7eb', borderRadius: 12, fontSize: 17, fontWeight: 600, cursor: 'pointer' },
+  blockBtnStarted: { background: '#fffbeb', border: '1.5px solid #f59e0b', color: '#92400e' },
+  blockBtnDone: { background: '#f0fdf4', border: '1.5px solid #22c55e', color: '#166534' },
   blockBtnSel: { background: '#eff6ff', border: '2px solid #2563eb', color: '#2563eb' },
   recordBtn: { padding: '16px', background: '#10b981', color: '#fff', border: 'none', borderRadius: 12, fontSize: 16, fontWeight: 600, cursor: 'pointer', width: '100%', marginBottom: 10 },
   manualBtn: { padding: '16px', background: '#f3f4f6', border: '1.5px solid #d1d5db', borderRadius: 12, fontSize: 16, fontWeight: 600, cursor: 'pointer', color: '#374151', width: '100%' },
   addrRow: { display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '10px 0', borderBottom: '1px solid #f3f4f6' },
   blockBadge: { background: '#eff6ff', color: '#2563eb', borderRadius: 6, padding: '2px 7px', fontSize: 11, fontWeight: 700, marginRight: 8 },
+  rvBtn: { background: '#f3f4f6', border: '1.5px solid transparent', borderRadius: 8, width: 36, height: 36, cursor: 'pointer', fontSize: 15 },
+  rvBtnSel: { background: '#eff6ff', border: '1.5px solid #2563eb' },
   deleteBtn: { background: 'none', border: 'none', color: '#9ca3af', cursor: 'pointer', fontSize: 18, padding: '4px 8px' },
   btn: { width: '100%', padding: '16px', color: '#fff', border: 'none', borderRadius: 12, fontSize: 17, fontWeight: 600, cursor: 'pointer', marginBottom: 10 },
   overlay: { position: 'fixed', inset: 0, background: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'flex-end', justifyContent: 'center', zIndex: 100 },
@@ -554,6 +1292,9 @@ const styles: Record<string, React.CSSProperties> = {
   spinner: { display: 'inline-block', width: 15, height: 15, border: '2px solid rgba(255,255,255,0.4)', borderTopColor: '#fff', borderRadius: '50%', animation: 'nahspin 0.7s linear infinite', verticalAlign: '-2px', marginRight: 6 },
   dncTh: { fontSize: 12, fontWeight: 700, color: '#374151', padding: '4px 6px', borderBottom: '1px solid #d1d5db', textAlign: 'center' },
   dncTd: { fontSize: 13, color: '#374151', padding: '5px 6px', borderBottom: '1px solid #e5e7eb' },
+  dncGroup: { fontSize: 11, fontWeight: 700, color: '#92826a', textTransform: 'uppercase', letterSpacing: 0.4, padding: '8px 6px 3px' },
+  dncWarn: { background: '#fef2f2', border: '1px solid #fca5a5', borderRadius: 10, padding: '10px 12px', fontSize: 13, color: '#991b1b', marginTop: 14 },
+  dncOverride: { display: 'flex', alignItems: 'center', gap: 8, marginTop: 8, fontWeight: 600, cursor: 'pointer' },
   lbl: { display: 'block', fontSize: 13, fontWeight: 600, color: '#374151', marginBottom: 6 },
   inp: { width: '100%', padding: '12px 14px', border: '1.5px solid #d1d5db', borderRadius: 10, fontSize: 16, outline: 'none', boxSizing: 'border-box' },
   cancelBtn: { flex: 1, padding: '14px', background: '#f3f4f6', border: 'none', borderRadius: 12, fontSize: 16, cursor: 'pointer' },
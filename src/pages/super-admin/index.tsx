@@ -9,12 +9,14 @@ interface Congregation {
 }
 interface Request { id: string; name: string; contact_email: string; created_at: string; }
 interface CongAdmin { id: string; email: string; }
+interface Lockout { scope: 'ip' | 'congregation' | 'admin'; key: string; failures: number; locked_until: string; congregation_name: string | null; }
 
 export default function SuperAdmin() {
   const router = useRouter();
   const [congregations, setCongregations] = useState<Congregation[]>([]);
   const [requests, setRequests] = useState<Request[]>([]);
-  const [tab, setTab] = useState<'congregations' | 'requests'>('congregations');
+  const [tab, setTab] = useState<'congregations' | 'requests' | 'lockouts'>('congregations');
+  const [lockouts, setLockouts] = useState<Lockout[]>([]);
   const [loading, setLoading] = useState(true);
   const [addModal, setAddModal] = useState(false);
   const [editModal, setEditModal] = useState<Congregation | null>(null);
@@ -22,6 +24,8 @@ export default function SuperAdmin() {
   const [form, setForm] = useState({ name: '', pin_code: '', contact_email: '' });
   const [editForm, setEditForm] = useState({ name: '', pin_code: '', status: 'active', contact_email: '', notification_email: '' });
   const [approvePIN, setApprovePIN] = useState('');
+  // PINs are stored hashed, so the plain PIN is shown once right after creation
+  const [issuedPin, setIssuedPin] = useState<{ name: string; pin: string } | null>(null);
   const [search, setSearch] = useState('');
   const [resetModal, setResetModal] = useState<{ congregation: Congregation; admins: CongAdmin[] } | null>(null);
   const [resetTarget, setResetTarget] = useState<CongAdmin | null>(null);
@@ -44,20 +48,31 @@ export default function SuperAdmin() {
   }, [router]);
 
   const loadAll = async () => {
-    const [cRes, rRes] = await Promise.all([
+    const [cRes, rRes, lRes] = await Promise.all([
       fetch('/api/super-admin/congregations'),
       fetch('/api/super-admin/requests'),
+      fetch('/api/super-admin/lockouts'),
     ]);
     if (cRes.ok) setCongregations(await cRes.json());
     if (rRes.ok) setRequests(await rRes.json());
+    if (lRes.ok) setLockouts(await lRes.json());
+  };
+
+  const unlock = async (l: Lockout) => {
+    await fetch('/api/super-admin/lockouts', {
+      method: 'POST', headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scope: l.scope, key: l.key }),
+    });
+    loadAll();
   };
 
   const addCongregation = async () => {
     const res = await fetch('/api/super-admin/congregations', {
       method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(form),
     });
-    if (res.ok) { setAddModal(false); setForm({ name: '', pin_code: '', contact_email: '' }); loadAll(); }
-    else { const d = await res.json(); alert(d.error); }
+    const d = await res.json();
+    if (res.ok) { setAddModal(false); setForm({ name: '', pin_code: '', contact_email: '' }); setIssuedPin({ name: d.name, pin: d.pin_code }); loadAll(); }
+    else alert(d.error);
   };
 
   const updateCongregation = async () => {
@@ -77,10 +92,13 @@ export default function SuperAdmin() {
 
   const approveRequest = async () => {
     if (!approveModal) return;
-    await fetch('/api/super-admin/requests', {
+    const res = await fetch('/api/super-admin/requests', {
       method: 'POST', headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ id: approveModal.id, action: 'approve', pin_code: approvePIN }),
     });
+    const d = await res.json();
+    if (!res.ok) return alert(d.error);
+    setIssuedPin({ name: approveModal.name, pin: d.pin_code });
     setApproveModal(null);
     setApprovePIN('');
     loadAll();
@@ -170,6 +188,9 @@ export default function SuperAdmin() {
           <button style={{ ...styles.tab, ...(tab === 'requests' ? styles.tabActive : {}) }} onClick={() => setTab('requests')}>
             📬 Requests {requests.length > 0 && <span style={styles.badge2}>{requests.length}</span>}
           </button>
+          <button style={{ ...styles.tab, ...(tab === 'lockouts' ? styles.tabActive : {}) }} onClick={() => setTab('lockouts')}>
+            🔒 Lockouts {lockouts.length > 0 && <span style={styles.badge2}>{lockouts.length}</span>}
+          </button>
         </div>
 
         <div style={styles.content}>
@@ -241,6 +262,30 @@ export default function SuperAdmin() {
               }
             </>
           )}
+
+          {tab === 'lockouts' && (
+            <>
+              {lockouts.length === 0
+                ? <p style={styles.empty}>No accounts are locked out</p>
+                : lockouts.map(l => (
+                  <div key={`${l.scope}:${l.key}`} style={styles.reqCard}>
+                    <div style={{ flex: 1 }}>
+                      <div style={{ fontWeight: 700, fontSize: 15 }}>
+                        {l.scope === 'ip' ? `IP ${l.key}` : l.scope === 'admin' ? l.key : (l.congregation_name || l.key)}
+                      </div>
+                      <div style={{ fontSize: 13, color: '#6b7280' }}>
+                        {l.scope === 'congregation' ? 'Congregation PIN login' : l.scope === 'admin' ? `Admin login${l.congregation_name ? ` — ${l.congregation_name}` : ''}` : 'All logins from this address'}
+                      </div>
+                      <div style={{ fontSize: 12, color: '#9ca3af', marginTop: 2 }}>
+                        {l.failures} failed attempts · locked until {new Date(l.locked_until).toLocaleTimeString()}
+                      </div>
+                    </div>
+                    <button style={styles.approveBtn} onClick={() => unlock(l)}>Unlock</button>
+                  </div>
+                ))
+              }
+            </>
+          )}
         </div>
       </div>
 
@@ -249,7 +294,7 @@ export default function SuperAdmin() {
           <div style={styles.modal}>
             <h3 style={{ margin: '0 0 16px' }}>Add Congregation</h3>
             <div style={styles.fieldG}><label style={styles.lbl}>Name</label><input style={styles.inp} value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} /></div>
-            <div style={styles.fieldG}><label style={styles.lbl}>PIN Code</label><input style={styles.inp} value={form.pin_code} onChange={e => setForm({ ...form, pin_code: e.target.value })} placeholder="e.g. 1234" /></div>
+            <div style={styles.fieldG}><label style={styles.lbl}>PIN Code (leave blank to generate)</label><input style={styles.inp} value={form.pin_code} onChange={e => setForm({ ...form, pin_code: e.target.value })} placeholder="Random 6-digit PIN" /></div>
             <div style={styles.fieldG}><label style={styles.lbl}>Contact Email (optional)</label><input style={styles.inp} type="email" value={form.contact_email} onChange={e => setForm({ ...form, contact_email: e.target.value })} /></div>
             <div style={{ display: 'flex', gap: 10, marginTop: 20 }}>
               <button style={styles.cancelBtn} onClick={() => setAddModal(false)}>Cancel</button>
@@ -332,8 +377,8 @@ export default function SuperAdmin() {
         <div style={styles.overlay}>
           <div style={styles.modal}>
             <h3 style={{ margin: '0 0 8px' }}>Approve — {approveModal.name}</h3>
-            <p style={{ color: '#6b7280', fontSize: 14, marginBottom: 16 }}>Set the PIN code for this congregation:</p>
-            <div style={styles.fieldG}><label style={styles.lbl}>PIN Code</label><input style={styles.inp} value={approvePIN} onChange={e => setApprovePIN(e.target.value)} placeholder="e.g. 1234" /></div>
+            <p style={{ color: '#6b7280', fontSize: 14, marginBottom: 16 }}>Set the PIN code for this congregation, or leave it blank to generate a random one:</p>
+            <div style={styles.fieldG}><label style={styles.lbl}>PIN Code</label><input style={styles.inp} value={approvePIN} onChange={e => setApprovePIN(e.target.value)} placeholder="Random 6-digit PIN" /></div>
             <div style={{ display: 'flex', gap: 10, marginTop: 20 }}>
               <button style={styles.cancelBtn} onClick={() => setApproveModal(null)}>Cancel</button>
               <button style={{ ...styles.confirmBtn, background: '#10b981' }} onClick={approveRequest}>Approve & Create</button>
@@ -341,6 +386,19 @@ export default function SuperAdmin() {
           </div>
         </div>
       )}
+
+      {issuedPin && (
+        <div style={styles.overlay}>
+          <div style={styles.modal}>
+            <h3 style={{ margin: '0 0 8px' }}>PIN for {issuedPin.name}</h3>
+            <p style={{ color: '#6b7280', fontSize: 14, marginBottom: 16 }}>Send this PIN to the congregation now — it is stored encrypted and won&apos;t be shown again.</p>
+            <div style={{ fontSize: 32, fontWeight: 700, letterSpacing: 4, textAlign: 'center', padding: '12px 0' }}>{issuedPin.pin}</div>
+            <div style={{ display: 'flex', gap: 10, marginTop: 20 }}>
+              <button style={styles.confirmBtn} onClick={() => setIssuedPin(null)}>Done</button>
+            </div>
+          </div>
+        </div>
+      )}
     </>
   );
 }